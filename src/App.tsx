@@ -1,12 +1,13 @@
 import React, { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-import { useAuthStore, useProductStore } from './store';
+import { useAuthStore, useProductStore, useSettingsStore } from './store';
 import ScrollToTop from './components/ui/ScrollToTop';
 
 // Layout Components
 import Header from './components/layout/Header';
 import Footer from './components/layout/Footer';
 import CartSidebar from './components/cart/CartSidebar';
+import CompareTray from './components/product/CompareTray';
 
 // Pages
 import HomePage from './pages/HomePage';
@@ -15,6 +16,8 @@ import ProductDetailPage from './pages/ProductDetailPage';
 import SearchResultsPage from './pages/SearchResultsPage';
 import CategoriesPage from './pages/CategoriesPage';
 import CartPage from './pages/CartPage';
+import WishlistPage from './pages/WishlistPage';
+import ComparePage from './pages/ComparePage';
 import CheckoutPage from './pages/CheckoutPage';
 import OrderConfirmationPage from './pages/OrderConfirmationPage';
 import OrdersPage from './pages/OrdersPage';
@@ -29,12 +32,16 @@ import AdminDashboard from './pages/admin/AdminDashboard';
 import ProductManagementPage from './pages/admin/ProductManagementPage';
 import CategoryManagementPage from './pages/admin/CategoryManagementPage';
 import OrderManagementPage from './pages/admin/OrderManagementPage';
+import ReviewModerationPage from './pages/admin/ReviewModerationPage';
+import QuestionQueuePage from './pages/admin/QuestionQueuePage';
+import CouponManagementPage from './pages/admin/CouponManagementPage';
 import UserManagementPage from './pages/admin/UserManagementPage';
 import SettingsPage from './pages/admin/SettingsPage';
 
 const App: React.FC = () => {
   const { checkAuth } = useAuthStore();
   const { fetchProducts, fetchCategories } = useProductStore();
+  const { fetchPricing } = useSettingsStore();
 
   useEffect(() => {
     // Initialize app data
@@ -46,7 +53,8 @@ const App: React.FC = () => {
         // Fetch initial data
         await Promise.all([
           fetchProducts(),
-          fetchCategories()
+          fetchCategories(),
+          fetchPricing()
         ]);
       } catch (error) {
         console.error('Failed to initialize app:', error);
@@ -54,7 +62,7 @@ const App: React.FC = () => {
     };
 
     initializeApp();
-  }, [checkAuth, fetchProducts, fetchCategories]);
+  }, [checkAuth, fetchProducts, fetchCategories, fetchPricing]);
 
   return (
     <Router>
@@ -71,6 +79,9 @@ const App: React.FC = () => {
             <Route path="products" element={<ProductManagementPage />} />
             <Route path="categories" element={<CategoryManagementPage />} />
             <Route path="orders" element={<OrderManagementPage />} />
+            <Route path="reviews" element={<ReviewModerationPage />} />
+            <Route path="questions" element={<QuestionQueuePage />} />
+            <Route path="coupons" element={<CouponManagementPage />} />
             <Route path="users" element={<UserManagementPage />} />
             <Route path="settings" element={<SettingsPage />} />
           </Route>
@@ -87,8 +98,10 @@ const App: React.FC = () => {
                   <Route path="/categories" element={<CategoriesPage />} />
                   <Route path="/search" element={<SearchResultsPage />} />
                   <Route path="/cart" element={<CartPage />} />
-                  <Route path="/checkout" element={<CheckoutPage />} />
-                  <Route path="/order-confirmation" element={<OrderConfirmationPage />} />
+                  <Route path="/wishlist" element={<WishlistPage />} />
+                  <Route path="/compare" element={<ComparePage />} />
+                  <Route path="/checkout/:step?" element={<CheckoutPage />} />
+                  <Route path="/order-confirmation/:id" element={<OrderConfirmationPage />} />
                   <Route path="/profile" element={<ProfilePage />} />
                   <Route path="/orders" element={<OrdersPage />} />
                   <Route path="/track" element={<OrderTrackingPage />} />
@@ -96,6 +109,7 @@ const App: React.FC = () => {
               </main>
               <Footer />
               <CartSidebar />
+              <CompareTray />
             </>
           } />
         </Routes>
@@ -0,0 +1,49 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { CartIssue, useCartStore } from '../../store';
+import { issueKey } from '../../services/cartValidation';
+import { formatPrice } from '../../utils/format';
+
+const describeIssue = (issue: CartIssue): string => {
+  switch (issue.type) {
+    case 'price_changed':
+      return `${issue.productName} is now ${formatPrice(issue.price!)} (was ${formatPrice(issue.previousPrice!)}).`;
+    case 'quantity_reduced':
+      return `Only ${issue.availableQuantity} of ${issue.productName} left, so we lowered your quantity from ${issue.requestedQuantity}.`;
+    case 'sold_out':
+      return `${issue.productName} is sold out. Remove it to check out.`;
+    case 'removed':
+      return `${issue.productName} is no longer available and was removed from your cart.`;
+  }
+};
+
+// Notices from the last check of the cart against current prices and stock
+const CartIssues: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { issues, dismissIssues } = useCartStore();
+
+  if (issues.length === 0) return null;
+
+  return (
+    <div className={`p-4 bg-warning-50 border border-warning-200 rounded-xl text-sm text-warning-800 ${className}`} role="status">
+      <div className="flex items-start space-x-2">
+        <AlertTriangle className="w-5 h-5 flex-shrink-0 text-warning-600" />
+        <div className="flex-1 space-y-1">
+          <p className="font-medium">Your cart has changed</p>
+          <ul className="space-y-1">
+            {issues.map(issue => (
+              <li key={issueKey(issue)}>{describeIssue(issue)}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={dismissIssues}
+          className="text-warning-700 hover:text-warning-900 font-medium whitespace-nowrap"
+        >
+          Got it
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CartIssues;
@@ -1,9 +1,16 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Plus, Minus, ShoppingBag } from 'lucide-react';
-import { useCartStore } from '../../store';
+import { X, Plus, Minus, ShoppingBag, Heart } from 'lucide-react';
+import { useCartStore, useWishlistStore } from '../../store';
 import { formatPrice } from '../../utils/format';
+import { formatVariantLabel, getCartLineId, getItemImage, getItemPrice } from '../../services/productVariants';
+import { getAvailableQuantity, isSoldOut } from '../../services/cartValidation';
+import useCartValidation from '../../hooks/useCartValidation';
+import useCartTotals from '../../hooks/useCartTotals';
 import Button from '../ui/Button';
+import SavedForLater from './SavedForLater';
+import CartIssues from './CartIssues';
+import TotalsBreakdown from './TotalsBreakdown';
 import { Link } from 'react-router-dom';
 
 const CartSidebar: React.FC = () => {
@@ -13,10 +20,15 @@ const CartSidebar: React.FC = () => {
     toggleCart, 
     updateQuantity, 
     removeItem, 
-    getTotalPrice 
+    getSoldOutItems,
+    coupon
   } = useCartStore();
+  const { moveFromCart } = useWishlistStore();
 
-  const totalPrice = getTotalPrice();
+  const totals = useCartTotals();
+  const soldOutItems = getSoldOutItems();
+
+  useCartValidation(isOpen);
 
   return (
     <AnimatePresence>
@@ -71,9 +83,10 @@ const CartSidebar: React.FC = () => {
                 </div>
               ) : (
                 <div className="space-y-4">
+                  <CartIssues />
                   {items.map((item) => (
                     <motion.div
-                      key={item.product.id}
+                      key={getCartLineId(item)}
                       layout
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
@@ -81,7 +94,7 @@ const CartSidebar: React.FC = () => {
                       className="flex items-center space-x-4 p-4 bg-gray-50 rounded-xl"
                     >
                       <img
-                        src={item.product.images[0]}
+                        src={getItemImage(item)}
                         alt={item.product.name}
                         className="w-16 h-16 object-cover rounded-lg"
                       />
@@ -89,13 +102,23 @@ const CartSidebar: React.FC = () => {
                         <h4 className="font-medium text-gray-900 truncate">
                           {item.product.name}
                         </h4>
+                        {item.variant && (
+                          <p className="text-xs text-gray-500 truncate">
+                            {formatVariantLabel(item.variant, item.product.options)}
+                          </p>
+                        )}
                         <p className="text-sm text-gray-500">
-                          {formatPrice(item.product.price)}
+                          {formatPrice(getItemPrice(item))}
                         </p>
+                        {isSoldOut(item) ? (
+                          <p className="text-xs font-medium text-danger-600">Sold out</p>
+                        ) : item.quantity >= getAvailableQuantity(item) && (
+                          <p className="text-xs text-warning-600">Only {getAvailableQuantity(item)} available</p>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2">
                         <button
-                          onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                          onClick={() => updateQuantity(getCartLineId(item), item.quantity - 1)}
                           className="p-1 hover:bg-gray-200 rounded transition-colors"
                         >
                           <Minus className="w-4 h-4" />
@@ -104,20 +127,37 @@ const CartSidebar: React.FC = () => {
                           {item.quantity}
                         </span>
                         <button
-                          onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                          className="p-1 hover:bg-gray-200 rounded transition-colors"
+                          onClick={() => updateQuantity(getCartLineId(item), item.quantity + 1)}
+                          disabled={item.quantity >= getAvailableQuantity(item)}
+                          aria-label="Increase quantity"
+                          className="p-1 hover:bg-gray-200 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
                         >
                           <Plus className="w-4 h-4" />
                         </button>
                       </div>
-                      <button
-                        onClick={() => removeItem(item.product.id)}
-                        className="p-1 text-danger-500 hover:bg-danger-50 rounded transition-colors"
-                      >
-                        <X className="w-4 h-4" />
-                      </button>
+                      <div className="flex flex-col space-y-1">
+                        <button
+                          onClick={() => removeItem(getCartLineId(item))}
+                          aria-label="Remove from cart"
+                          className="p-1 text-danger-500 hover:bg-danger-50 rounded transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveFromCart(getCartLineId(item))}
+                          aria-label="Save for later"
+                          title="Save for later"
+                          className="p-1 text-gray-400 hover:text-danger-500 hover:bg-gray-200 rounded transition-colors"
+                        >
+                          <Heart className="w-4 h-4" />
+                        </button>
+                      </div>
                     </motion.div>
                   ))}
+
+                  <div className="pt-4">
+                    <SavedForLater limit={3} onNavigate={toggleCart} />
+                  </div>
                 </div>
               )}
             </div>
@@ -125,16 +165,19 @@ const CartSidebar: React.FC = () => {
             {/* Footer */}
             {items.length > 0 && (
               <div className="border-t border-gray-200 p-6 space-y-4">
-                <div className="flex items-center justify-between text-lg font-semibold">
-                  <span>Total:</span>
-                  <span>{formatPrice(totalPrice)}</span>
-                </div>
+                <TotalsBreakdown totals={totals} couponCode={coupon?.code} taxEstimated />
                 <div className="space-y-2">
-                  <Link to="/checkout" onClick={toggleCart} className="block">
-                    <Button size="lg" className="w-full">
-                      Proceed to Checkout
+                  {soldOutItems.length > 0 ? (
+                    <Button size="lg" className="w-full" disabled>
+                      Remove sold-out items to check out
                     </Button>
-                  </Link>
+                  ) : (
+                    <Link to="/checkout" onClick={toggleCart} className="block">
+                      <Button size="lg" className="w-full">
+                        Proceed to Checkout
+                      </Button>
+                    </Link>
+                  )}
                   <Link to="/cart" onClick={toggleCart} className="block">
                     <Button variant="outline" size="lg" className="w-full">
                       View Cart
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { useCartStore } from '../../store';
+import { describeCoupon, getCouponProblem } from '../../services/couponRules';
+import Button from '../ui/Button';
+
+// Promo code entry for the order summary. Not a <form>: on checkout it sits
+// inside the order form, and Enter here must not place the order.
+const CouponForm: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { items, coupon, couponError, applyingCoupon, applyCoupon, removeCoupon } = useCartStore();
+  const [code, setCode] = useState('');
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+    if (await applyCoupon(code.trim())) setCode('');
+  };
+
+  if (coupon) {
+    const problem = getCouponProblem(coupon, items);
+    return (
+      <div className={className}>
+        <div className="flex items-center justify-between p-3 bg-success-50 border border-success-200 rounded-lg">
+          <div className="flex items-center space-x-2 min-w-0">
+            <Tag className="w-4 h-4 text-success-600 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-gray-900">{coupon.code}</p>
+              <p className="text-xs text-gray-600 truncate">{coupon.description || describeCoupon(coupon)}</p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={removeCoupon}
+            aria-label="Remove code"
+            className="p-1 text-gray-400 hover:text-danger-500 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {problem && (
+          <p className="text-sm text-warning-600 mt-2">Not applied: {problem}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="flex space-x-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Promo code"
+          aria-label="Promo code"
+          className="block w-full rounded-lg border-gray-300 text-sm uppercase placeholder:normal-case focus:border-primary-500 focus:ring-primary-500 px-3 py-2"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleApply}
+          disabled={!code.trim()}
+          loading={applyingCoupon}
+        >
+          Apply
+        </Button>
+      </div>
+      {couponError && (
+        <p className="text-sm text-danger-600 mt-2">{couponError}</p>
+      )}
+    </div>
+  );
+};
+
+export default CouponForm;
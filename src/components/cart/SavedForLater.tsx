@@ -0,0 +1,79 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ShoppingCart, X } from 'lucide-react';
+import { useWishlistStore } from '../../store';
+import { formatPrice } from '../../utils/format';
+
+interface SavedForLaterProps {
+  // Show at most this many items, with a link to the full wishlist
+  limit?: number;
+  onNavigate?: () => void;
+}
+
+// Wishlist items listed under the cart so they can be moved back in
+const SavedForLater: React.FC<SavedForLaterProps> = ({ limit, onNavigate }) => {
+  const { items, moveToCart, removeItem } = useWishlistStore();
+
+  if (items.length === 0) return null;
+
+  const visibleItems = limit === undefined ? items : items.slice(0, limit);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">
+          Saved for later ({items.length})
+        </h3>
+        {visibleItems.length < items.length && (
+          <Link
+            to="/wishlist"
+            onClick={onNavigate}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+          >
+            View all
+          </Link>
+        )}
+      </div>
+
+      {visibleItems.map((item) => (
+        <div key={item.product.id} className="flex items-center space-x-3 p-3 border border-gray-200 rounded-xl">
+          <img
+            src={item.product.images[0]}
+            alt={item.product.name}
+            className="w-12 h-12 object-cover rounded-lg"
+          />
+          <div className="flex-1 min-w-0">
+            <Link
+              to={`/product/${item.product.id}`}
+              onClick={onNavigate}
+              className="block text-sm font-medium text-gray-900 truncate hover:text-primary-600"
+            >
+              {item.product.name}
+            </Link>
+            <p className="text-sm text-gray-500">
+              {item.product.inStock ? formatPrice(item.product.price) : 'Out of stock'}
+            </p>
+          </div>
+          <button
+            onClick={() => moveToCart(item.product.id)}
+            disabled={!item.product.inStock}
+            aria-label="Move to cart"
+            title="Move to cart"
+            className="p-2 text-primary-600 hover:bg-primary-50 rounded-lg transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+          >
+            <ShoppingCart className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => removeItem(item.product.id)}
+            aria-label="Remove from wishlist"
+            className="p-2 text-gray-400 hover:text-danger-500 hover:bg-danger-50 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SavedForLater;
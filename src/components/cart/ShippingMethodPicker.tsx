@@ -0,0 +1,56 @@
+import React from 'react';
+import { Store, Truck, Zap } from 'lucide-react';
+import { ShippingMethodId } from '../../store';
+import { ShippingQuote, formatDeliveryEstimate } from '../../services/shippingRules';
+import { formatPrice } from '../../utils/format';
+
+interface ShippingMethodPickerProps {
+  quotes: ShippingQuote[];
+  selected: ShippingMethodId;
+  onSelect: (method: ShippingMethodId) => void;
+  // Shown under the local pickup option
+  pickupAddress?: string;
+}
+
+const methodIcons: Record<ShippingMethodId, React.ElementType> = {
+  standard: Truck,
+  express: Zap,
+  pickup: Store,
+};
+
+const ShippingMethodPicker: React.FC<ShippingMethodPickerProps> = ({ quotes, selected, onSelect, pickupAddress }) => (
+  <div className="space-y-3" role="radiogroup" aria-label="Delivery method">
+    {quotes.map(quote => {
+      const Icon = methodIcons[quote.method];
+      const active = quote.method === selected;
+      return (
+        <button
+          key={quote.method}
+          type="button"
+          role="radio"
+          aria-checked={active}
+          onClick={() => onSelect(quote.method)}
+          className={`w-full flex items-center justify-between p-4 rounded-xl border text-left transition-colors ${
+            active ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <div className="flex items-center space-x-3">
+            <Icon className={`w-5 h-5 ${active ? 'text-primary-600' : 'text-gray-400'}`} />
+            <div>
+              <p className="font-medium text-gray-900">{quote.label}</p>
+              <p className="text-sm text-gray-500">{formatDeliveryEstimate(quote)}</p>
+              {quote.method === 'pickup' && pickupAddress && (
+                <p className="text-sm text-gray-500">{pickupAddress}</p>
+              )}
+            </div>
+          </div>
+          <span className="font-medium text-gray-900">
+            {quote.cost === 0 ? 'Free' : formatPrice(quote.cost)}
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default ShippingMethodPicker;
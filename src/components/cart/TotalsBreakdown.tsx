@@ -0,0 +1,57 @@
+import React from 'react';
+import { OrderTotals } from '../../services/pricing';
+import { formatPrice } from '../../utils/format';
+
+interface TotalsBreakdownProps {
+  totals: OrderTotals;
+  couponCode?: string;
+  // Before a shipping address is known, tax is charged at the default rate
+  taxEstimated?: boolean;
+  className?: string;
+}
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(3))}%`;
+
+// Subtotal-to-total rows, shared by the cart, checkout and order views so
+// they always show the same lines
+const TotalsBreakdown: React.FC<TotalsBreakdownProps> = ({ totals, couponCode, taxEstimated = false, className = '' }) => {
+  const [singleLine] = totals.taxLines.length === 1 ? totals.taxLines : [];
+  const taxLabel = taxEstimated
+    ? 'Estimated tax'
+    : singleLine ? `${singleLine.name} (${formatRate(singleLine.rate)})` : 'Tax';
+
+  return (
+    <div className={`space-y-3 text-sm ${className}`}>
+      <div className="flex justify-between">
+        <span className="text-gray-600">Subtotal</span>
+        <span className="font-medium">{formatPrice(totals.subtotal)}</span>
+      </div>
+      {totals.discount > 0 && (
+        <div className="flex justify-between text-success-600">
+          <span>Discount{couponCode && ` (${couponCode})`}</span>
+          <span className="font-medium">-{formatPrice(totals.discount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-gray-600">Shipping</span>
+        <span className="font-medium">{totals.shipping === 0 ? 'Free' : formatPrice(totals.shipping)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-600">{taxLabel}</span>
+        <span className="font-medium">{formatPrice(totals.tax)}</span>
+      </div>
+      {totals.taxLines.length > 1 && totals.taxLines.map(line => (
+        <div key={line.name} className="flex justify-between pl-4 text-gray-500">
+          <span>{line.name} ({formatRate(line.rate)})</span>
+          <span>{formatPrice(line.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-lg font-bold border-t pt-3">
+        <span>Total</span>
+        <span>{formatPrice(totals.total)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default TotalsBreakdown;
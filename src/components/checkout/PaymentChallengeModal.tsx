@@ -0,0 +1,38 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { PaymentChallenge } from '../../services/paymentProviders';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+
+interface PaymentChallengeModalProps {
+  challenge: PaymentChallenge | null;
+  onComplete: (passed: boolean) => void;
+}
+
+// Stands in for the card issuer's verification screen when the payment
+// provider leaves the challenge to us
+const PaymentChallengeModal: React.FC<PaymentChallengeModalProps> = ({ challenge, onComplete }) => (
+  <Modal
+    isOpen={!!challenge}
+    onClose={() => onComplete(false)}
+    title="Verify Your Payment"
+    size="sm"
+  >
+    <div className="space-y-4">
+      <div className="flex items-start space-x-3">
+        <ShieldCheck className="w-6 h-6 text-primary-600 flex-shrink-0" />
+        <p className="text-gray-600">{challenge?.message}</p>
+      </div>
+      <div className="flex space-x-4 justify-end">
+        <Button variant="outline" onClick={() => onComplete(false)}>
+          Cancel
+        </Button>
+        <Button onClick={() => onComplete(true)}>
+          Verify Payment
+        </Button>
+      </div>
+    </div>
+  </Modal>
+);
+
+export default PaymentChallengeModal;
@@ -2,8 +2,8 @@ import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
-  Search, 
   ShoppingCart, 
+  Heart,
   User, 
   Menu, 
   X, 
@@ -13,27 +13,19 @@ import {
   Package,
   Truck
 } from 'lucide-react';
-import { useAuthStore, useCartStore } from '../../store';
+import { useAuthStore, useCartStore, useWishlistStore } from '../../store';
 import Button from '../ui/Button';
-import Input from '../ui/Input';
+import SearchAutocomplete from './SearchAutocomplete';
 
 const Header: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   
   const { user, isAuthenticated, logout } = useAuthStore();
   const { toggleCart, getTotalItems } = useCartStore();
+  const wishlistCount = useWishlistStore(state => state.items.length);
   const navigate = useNavigate();
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
-      setSearchQuery('');
-    }
-  };
-
   const handleLogout = () => {
     logout();
     setIsUserMenuOpen(false);
@@ -62,16 +54,7 @@ const Header: React.FC = () => {
 
           {/* Search Bar - Desktop */}
           <div className="hidden md:flex flex-1 max-w-lg mx-8">
-            <form onSubmit={handleSearch} className="w-full">
-              <Input
-                type="text"
-                placeholder="Search for electronics..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                icon={<Search className="w-4 h-4" />}
-                className="w-full"
-              />
-            </form>
+            <SearchAutocomplete id="desktop-search" className="w-full" />
           </div>
 
           {/* Desktop Navigation */}
@@ -89,6 +72,20 @@ const Header: React.FC = () => {
               Categories
             </Link>
             
+            {/* Wishlist */}
+            <Link
+              to="/wishlist"
+              aria-label="Wishlist"
+              className="relative p-2 text-gray-700 hover:text-primary-600 transition-colors"
+            >
+              <Heart className="w-6 h-6" />
+              {wishlistCount > 0 && (
+                <span className="absolute -top-1 -right-1 w-5 h-5 bg-primary-600 text-white text-xs rounded-full flex items-center justify-center font-medium">
+                  {wishlistCount}
+                </span>
+              )}
+            </Link>
+
             {/* Cart */}
             <button
               onClick={toggleCart}
@@ -196,15 +193,11 @@ const Header: React.FC = () => {
             className="md:hidden border-t border-gray-200 py-4"
           >
             {/* Mobile Search */}
-            <form onSubmit={handleSearch} className="mb-4">
-              <Input
-                type="text"
-                placeholder="Search for electronics..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                icon={<Search className="w-4 h-4" />}
-              />
-            </form>
+            <SearchAutocomplete
+              id="mobile-search"
+              className="mb-4"
+              onNavigate={() => setIsMenuOpen(false)}
+            />
 
             {/* Mobile Navigation */}
             <div className="space-y-2">
@@ -222,6 +215,13 @@ const Header: React.FC = () => {
               >
                 Categories
               </Link>
+              <Link
+                to="/wishlist"
+                className="block px-3 py-2 text-gray-700 hover:text-primary-600 transition-colors font-medium"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                Wishlist{wishlistCount > 0 && ` (${wishlistCount})`}
+              </Link>
               
               {isAuthenticated ? (
                 <>
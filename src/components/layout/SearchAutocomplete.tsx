@@ -0,0 +1,314 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Clock, Folder, X } from 'lucide-react';
+import { useProductStore, useSearchHistoryStore, Category } from '../../store';
+import { normalizeText, searchProducts, SearchResult } from '../../services/productSearch';
+import { formatPrice } from '../../utils/format';
+import useDebouncedValue from '../../hooks/useDebouncedValue';
+import Input from '../ui/Input';
+import Highlight from '../ui/Highlight';
+
+type Suggestion =
+  | { type: 'product'; id: string; result: SearchResult }
+  | { type: 'category'; id: string; category: Category }
+  | { type: 'recent'; id: string; query: string }
+  | { type: 'search'; id: string; query: string };
+
+interface SearchAutocompleteProps {
+  // Prefix for element ids; must be unique per instance on the page
+  id: string;
+  className?: string;
+  // Called after navigating away, e.g. to close the mobile menu
+  onNavigate?: () => void;
+}
+
+const SUGGESTION_DELAY_MS = 150;
+const MAX_PRODUCTS = 5;
+const MAX_CATEGORIES = 3;
+
+const sectionTitles: Record<Suggestion['type'], string> = {
+  product: 'Products',
+  category: 'Categories',
+  recent: 'Recent searches',
+  search: '',
+};
+
+// Header search box with a combobox dropdown of products, categories and
+// recent searches. Options are navigated with the arrow keys while focus
+// stays in the input (aria-activedescendant); Delete removes the highlighted
+// recent search.
+const SearchAutocomplete: React.FC<SearchAutocompleteProps> = ({
+  id,
+  className,
+  onNavigate,
+}) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const navigate = useNavigate();
+
+  const { searchCatalog, categories, fetchSearchCatalog } = useProductStore();
+  const { recentSearches, addRecentSearch, removeRecentSearch } = useSearchHistoryStore();
+  const debouncedQuery = useDebouncedValue(query.trim(), SUGGESTION_DELAY_MS);
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    if (!debouncedQuery) {
+      return recentSearches.map(search => ({ type: 'recent', id: `recent-${search}`, query: search }));
+    }
+
+    const normalized = normalizeText(debouncedQuery);
+    const products = searchProducts(searchCatalog, debouncedQuery, { limit: MAX_PRODUCTS });
+    const matchingCategories = categories
+      .filter(category => normalizeText(category.name).includes(normalized))
+      .slice(0, MAX_CATEGORIES);
+    const matchingRecent = recentSearches
+      .filter(search => normalizeText(search).startsWith(normalized) && search !== debouncedQuery)
+      .slice(0, 3);
+
+    return [
+      ...products.map<Suggestion>(result => ({ type: 'product', id: `product-${result.product.id}`, result })),
+      ...matchingCategories.map<Suggestion>(category => ({ type: 'category', id: `category-${category.id}`, category })),
+      ...matchingRecent.map<Suggestion>(search => ({ type: 'recent', id: `recent-${search}`, query: search })),
+      { type: 'search', id: 'search', query: debouncedQuery },
+    ];
+  }, [debouncedQuery, searchCatalog, categories, recentSearches]);
+
+  const listboxId = `${id}-listbox`;
+  const removeHintId = `${id}-remove-hint`;
+  const optionId = (index: number) => `${id}-option-${index}`;
+  const showList = isOpen && suggestions.length > 0;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const goTo = (path: string) => {
+    navigate(path);
+    setQuery('');
+    close();
+    onNavigate?.();
+  };
+
+  // A query that matches exactly one product goes straight to it
+  const submitSearch = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    addRecentSearch(trimmed);
+    const results = searchProducts(searchCatalog, trimmed, { limit: 2 });
+    goTo(results.length === 1
+      ? `/product/${results[0].product.id}`
+      : `/search?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const select = (suggestion: Suggestion) => {
+    switch (suggestion.type) {
+      case 'product':
+        if (query.trim()) addRecentSearch(query);
+        goTo(`/product/${suggestion.result.product.id}`);
+        break;
+      case 'category':
+        goTo(`/products?category=${encodeURIComponent(suggestion.category.name)}`);
+        break;
+      case 'recent':
+      case 'search':
+        submitSearch(suggestion.query);
+        break;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (showList && activeIndex >= 0) {
+      select(suggestions[activeIndex]);
+    } else {
+      submitSearch(query);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (suggestions.length === 0 ? -1 : (index + 1) % suggestions.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case 'Home':
+      case 'End':
+        if (!showList || activeIndex < 0) return;
+        e.preventDefault();
+        setActiveIndex(e.key === 'Home' ? 0 : suggestions.length - 1);
+        break;
+      case 'Escape':
+        if (showList) {
+          e.preventDefault();
+          close();
+        } else if (query) {
+          setQuery('');
+        }
+        break;
+      case 'Tab':
+        close();
+        break;
+      case 'Delete': {
+        const active = showList ? suggestions[activeIndex] : undefined;
+        if (active?.type !== 'recent') return;
+        e.preventDefault();
+        removeRecentSearch(active.query);
+        // Stay on the same row, which now holds the next suggestion
+        setActiveIndex(index => Math.min(index, suggestions.length - 2));
+        break;
+      }
+    }
+  };
+
+  const renderSuggestion = (suggestion: Suggestion) => {
+    switch (suggestion.type) {
+      case 'product': {
+        const { product, highlights } = suggestion.result;
+        return (
+          <>
+            <img
+              src={product.images[0]}
+              alt=""
+              className="w-10 h-10 rounded-lg object-cover bg-gray-100 flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                <Highlight text={product.name} ranges={highlights.name} />
+              </p>
+              <p className="text-xs text-gray-500 truncate">{product.brand}</p>
+            </div>
+            <span className="text-sm font-semibold text-gray-900">
+              {formatPrice(product.price)}
+            </span>
+          </>
+        );
+      }
+      case 'category':
+        return (
+          <>
+            <Folder className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 text-sm text-gray-700 truncate">{suggestion.category.name}</span>
+            <span className="text-xs text-gray-400">{suggestion.category.productCount} products</span>
+          </>
+        );
+      case 'recent':
+        return (
+          <>
+            <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 text-sm text-gray-700 truncate">{suggestion.query}</span>
+          </>
+        );
+      case 'search':
+        return (
+          <>
+            <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 text-sm text-gray-700 truncate">
+              Search for "<span className="font-medium">{suggestion.query}</span>"
+            </span>
+          </>
+        );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={className} role="search">
+      <div className="relative">
+        <Input
+          type="text"
+          placeholder="Search for electronics..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => {
+            fetchSearchCatalog();
+            setIsOpen(true);
+          }}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
+          icon={<Search className="w-4 h-4" />}
+          className="w-full"
+          role="combobox"
+          aria-label="Search products"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listboxId}
+          aria-activedescendant={showList && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          autoComplete="off"
+        />
+
+        <span id={removeHintId} className="sr-only">
+          Press Delete to remove it from recent searches
+        </span>
+
+        {showList && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="Search suggestions"
+            className="absolute left-0 right-0 mt-2 max-h-96 overflow-y-auto bg-white rounded-xl shadow-lg border border-gray-200 py-2 z-50"
+          >
+            {suggestions.map((suggestion, index) => {
+              const title = sectionTitles[suggestion.type];
+              const startsSection = title && suggestions[index - 1]?.type !== suggestion.type;
+              return (
+                <React.Fragment key={suggestion.id}>
+                  {startsSection && (
+                    <li role="presentation" className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                      {title}
+                    </li>
+                  )}
+                  <li
+                    role="presentation"
+                    // Keep focus in the input so the blur doesn't close the list first
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`flex items-center ${
+                      index === activeIndex ? 'bg-primary-50' : 'hover:bg-gray-50'
+                    } ${suggestion.type === 'search' ? 'border-t border-gray-100 mt-1' : ''}`}
+                  >
+                    <div
+                      id={optionId(index)}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      aria-describedby={suggestion.type === 'recent' ? removeHintId : undefined}
+                      onClick={() => select(suggestion)}
+                      className="flex-1 min-w-0 flex items-center space-x-3 px-4 py-2 cursor-pointer"
+                    >
+                      {renderSuggestion(suggestion)}
+                    </div>
+                    {/* Kept outside the option, and hidden from assistive tech,
+                        which removes recent searches with the Delete key */}
+                    {suggestion.type === 'recent' && (
+                      <button
+                        type="button"
+                        tabIndex={-1}
+                        aria-hidden="true"
+                        title="Remove from recent searches"
+                        onClick={() => removeRecentSearch(suggestion.query)}
+                        className="mr-3 p-1 text-gray-400 hover:text-gray-600"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </li>
+                </React.Fragment>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SearchAutocomplete;
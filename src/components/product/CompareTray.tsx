@@ -0,0 +1,76 @@
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitCompare, X } from 'lucide-react';
+import { useCompareStore, MAX_COMPARE_ITEMS } from '../../store';
+import Button from '../ui/Button';
+
+// Bar pinned to the bottom of the page while products are queued for comparison
+const CompareTray: React.FC = () => {
+  const { items, removeItem, clearCompare } = useCompareStore();
+  const location = useLocation();
+
+  const visible = items.length > 0 && location.pathname !== '/compare';
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ y: 100 }}
+          animate={{ y: 0 }}
+          exit={{ y: 100 }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+          className="fixed bottom-0 inset-x-0 z-40 bg-white border-t border-gray-200 shadow-2xl"
+        >
+          <div className="container mx-auto px-4 py-3 flex items-center gap-4">
+            <div className="hidden sm:flex items-center text-gray-900 font-semibold whitespace-nowrap">
+              <GitCompare className="w-5 h-5 mr-2 text-primary-600" />
+              Compare ({items.length}/{MAX_COMPARE_ITEMS})
+            </div>
+
+            <div className="flex-1 flex items-center gap-3 overflow-x-auto">
+              {items.map(product => (
+                <div key={product.id} className="relative flex-shrink-0">
+                  <Link to={`/product/${product.id}`} title={product.name}>
+                    <img
+                      src={product.images[0]}
+                      alt={product.name}
+                      className="w-12 h-12 object-cover rounded-lg border border-gray-200"
+                    />
+                  </Link>
+                  <button
+                    onClick={() => removeItem(product.id)}
+                    aria-label={`Remove ${product.name} from comparison`}
+                    className="absolute -top-2 -right-2 p-0.5 bg-white border border-gray-200 rounded-full text-gray-500 hover:text-danger-500"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {[...Array(MAX_COMPARE_ITEMS - items.length)].map((_, i) => (
+                <div
+                  key={i}
+                  className="hidden sm:block w-12 h-12 flex-shrink-0 rounded-lg border-2 border-dashed border-gray-200"
+                />
+              ))}
+            </div>
+
+            <button
+              onClick={clearCompare}
+              className="text-sm text-gray-500 hover:text-gray-700 whitespace-nowrap"
+            >
+              Clear
+            </button>
+            <Link to="/compare">
+              <Button size="sm">
+                Compare
+              </Button>
+            </Link>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CompareTray;
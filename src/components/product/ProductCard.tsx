@@ -1,26 +1,52 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Star, ShoppingCart, Heart, Eye } from 'lucide-react';
-import { Product, useCartStore } from '../../store';
+import { Star, ShoppingCart, Heart, Eye, GitCompare } from 'lucide-react';
+import { Product, useCartStore, useCompareStore, useWishlistStore, MAX_COMPARE_ITEMS } from '../../store';
 import { formatPrice, formatCondition, getConditionColor } from '../../utils/format';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
+import Highlight from '../ui/Highlight';
+import { SearchResult } from '../../services/productSearch';
+import { hasVariants } from '../../services/productVariants';
 
 interface ProductCardProps {
   product: Product;
+  // Search matches to mark in the name and brand
+  highlights?: SearchResult['highlights'];
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, highlights }) => {
   const { addItem } = useCartStore();
+  const { isInWishlist, toggleItem } = useWishlistStore();
+  const saved = isInWishlist(product.id);
+  const compareStore = useCompareStore();
+  const compared = compareStore.isInCompare(product.id);
+  const compareFull = !compared && compareStore.isFull();
+
+  const withVariants = hasVariants(product);
 
   const handleAddToCart = (e: React.MouseEvent) => {
+    // Products with variants need a choice first; let the card link open the detail page
+    if (withVariants) return;
     e.preventDefault();
     e.stopPropagation();
     addItem(product);
   };
 
+  const handleToggleWishlist = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    toggleItem(product);
+  };
+
+  const handleToggleCompare = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    compareStore.toggleItem(product);
+  };
+
   const discountPercentage = product.originalPrice 
     ? Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)
     : 0;
@@ -57,9 +83,23 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
               className="p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-lg hover:bg-white transition-colors"
-              onClick={(e) => e.preventDefault()}
+              onClick={handleToggleWishlist}
+              aria-pressed={saved}
+              aria-label={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+            >
+              <Heart className={`w-4 h-4 ${saved ? 'text-danger-500 fill-current' : 'text-gray-600'}`} />
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              className="p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-lg hover:bg-white transition-colors disabled:opacity-50"
+              onClick={handleToggleCompare}
+              disabled={compareFull}
+              aria-pressed={compared}
+              aria-label={compared ? 'Remove from comparison' : 'Add to comparison'}
+              title={compareFull ? `You can compare up to ${MAX_COMPARE_ITEMS} products` : undefined}
             >
-              <Heart className="w-4 h-4 text-gray-600" />
+              <GitCompare className={`w-4 h-4 ${compared ? 'text-primary-600' : 'text-gray-600'}`} />
             </motion.button>
             <motion.button
               whileHover={{ scale: 1.1 }}
@@ -83,7 +123,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
           {/* Brand & Condition */}
           <div className="flex items-center justify-between">
             <span className="text-sm text-gray-500 font-medium truncate">
-              {product.brand}
+              <Highlight text={product.brand} ranges={highlights?.brand} />
             </span>
             <Badge 
               variant="info" 
@@ -96,7 +136,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
 
           {/* Product Name */}
           <h3 className="font-semibold text-gray-900 line-clamp-2 group-hover:text-primary-600 transition-colors flex-1">
-            {product.name}
+            <Highlight text={product.name} ranges={highlights?.name} />
           </h3>
 
           {/* Rating */}
@@ -120,6 +160,9 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
 
           {/* Price */}
           <div className="flex items-center space-x-2">
+            {withVariants && (
+              <span className="text-sm text-gray-500">From</span>
+            )}
             <span className="text-xl font-bold text-gray-900">
               {formatPrice(product.price)}
             </span>
@@ -138,7 +181,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
             size="sm"
           >
             <ShoppingCart className="w-4 h-4 mr-2" />
-            Add to Cart
+            {withVariants ? 'Choose Options' : 'Add to Cart'}
           </Button>
         </div>
       </Card>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Pagination as PaginationInfo } from '../../config/api';
+import useInfiniteScroll from '../../hooks/useInfiniteScroll';
+import Pagination from '../ui/Pagination';
+import Button from '../ui/Button';
+
+export type PaginationMode = 'pages' | 'infinite';
+
+interface ProductPaginationProps {
+  mode: PaginationMode;
+  pagination: PaginationInfo | null;
+  loadingMore: boolean;
+  onPageChange: (page: number) => void;
+  onLoadMore: () => void;
+}
+
+const ProductPagination: React.FC<ProductPaginationProps> = ({
+  mode,
+  pagination,
+  loadingMore,
+  onPageChange,
+  onLoadMore,
+}) => {
+  const hasNextPage = !!pagination?.hasNextPage;
+  // Re-arming after each page means a sentinel that is still on screen
+  // (short pages, tall viewports) keeps loading until it scrolls away
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(onLoadMore, mode === 'infinite' && hasNextPage && !loadingMore);
+
+  if (!pagination) return null;
+
+  if (mode === 'pages') {
+    return (
+      <Pagination
+        currentPage={pagination.currentPage}
+        totalPages={pagination.totalPages}
+        onPageChange={onPageChange}
+        className="mt-12"
+      />
+    );
+  }
+
+  return (
+    <div ref={sentinelRef} className="mt-12 flex flex-col items-center">
+      {loadingMore ? (
+        <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin"></div>
+      ) : hasNextPage ? (
+        <Button variant="outline" onClick={onLoadMore}>
+          Load More
+        </Button>
+      ) : pagination.totalItems > 0 && (
+        <p className="text-sm text-gray-500">
+          You've reached the end
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProductPagination;
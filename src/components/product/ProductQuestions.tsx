@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { HelpCircle, Search, CheckCircle, MessageCircle } from 'lucide-react';
+import { Product, ProductQuestion, useAuthStore } from '../../store';
+import { Pagination as PaginationInfo } from '../../config/api';
+import questionService from '../../services/questionService';
+import { formatDate } from '../../utils/format';
+import useAbortSignal from '../../hooks/useAbortSignal';
+import useDebouncedValue from '../../hooks/useDebouncedValue';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Pagination from '../ui/Pagination';
+
+interface ProductQuestionsProps {
+  product: Product;
+}
+
+const PAGE_SIZE = 5;
+const SEARCH_DELAY_MS = 300;
+const MIN_QUESTION_LENGTH = 10;
+
+const ProductQuestions: React.FC<ProductQuestionsProps> = ({ product }) => {
+  const { isAuthenticated } = useAuthStore();
+  const [questions, setQuestions] = useState<ProductQuestion[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [questionError, setQuestionError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const debouncedSearch = useDebouncedValue(search.trim(), SEARCH_DELAY_MS);
+  const nextSignal = useAbortSignal();
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch]);
+
+  useEffect(() => {
+    const signal = nextSignal();
+    const loadQuestions = async () => {
+      setLoading(true);
+      try {
+        const response = await questionService.getProductQuestions(
+          product.id,
+          { search: debouncedSearch || undefined, page, limit: PAGE_SIZE },
+          { signal }
+        );
+        if (response.success && response.data) {
+          setQuestions(response.data.questions || []);
+          setPagination(response.data.pagination || null);
+          setError(null);
+        } else {
+          setError(response.message || 'Failed to fetch questions');
+        }
+        setLoading(false);
+      } catch {
+        // Aborted by a newer search or page
+      }
+    };
+
+    loadQuestions();
+  }, [product.id, debouncedSearch, page, nextSignal]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (text.length < MIN_QUESTION_LENGTH) {
+      setQuestionError(`Please enter at least ${MIN_QUESTION_LENGTH} characters`);
+      return;
+    }
+
+    setSubmitting(true);
+    setQuestionError(null);
+    const response = await questionService.askQuestion(product.id, text);
+    setSubmitting(false);
+
+    if (response.success) {
+      setQuestion('');
+      setSubmitted(true);
+    } else {
+      setQuestionError(response.error?.fieldErrors.question || response.message || 'Failed to submit question');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Search */}
+      <Input
+        type="search"
+        placeholder="Search questions, e.g. battery health, charger, unlocked"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        icon={<Search className="w-4 h-4" />}
+        aria-label="Search questions"
+      />
+
+      {/* Answered Questions */}
+      {loading && questions.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading questions...</p>
+        </div>
+      ) : error && questions.length === 0 ? (
+        <p className="text-center py-12 text-danger-600">{error}</p>
+      ) : questions.length === 0 ? (
+        <div className="text-center py-12">
+          <HelpCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {debouncedSearch ? `No answered questions match "${debouncedSearch}"` : 'No questions yet'}
+          </h3>
+          <p className="text-gray-500">
+            Ask about battery health, included accessories or carrier locks below
+          </p>
+        </div>
+      ) : (
+        <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          {questions.map(item => (
+            <div key={item.id} className="pb-6 border-b border-gray-100 last:border-b-0">
+              <div className="flex items-start space-x-3">
+                <span className="font-bold text-primary-600">Q:</span>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">{item.question}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Asked by {item.userName} on {formatDate(item.createdAt)}
+                  </p>
+                </div>
+              </div>
+              {item.answer && (
+                <div className="flex items-start space-x-3 mt-3">
+                  <span className="font-bold text-success-600">A:</span>
+                  <div className="flex-1">
+                    <p className="text-gray-700 whitespace-pre-line">{item.answer}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {item.answeredBy || 'TechVault'}
+                      {item.answeredAt && ` · ${formatDate(item.answeredAt)}`}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {pagination && (
+            <Pagination
+              currentPage={pagination.currentPage}
+              totalPages={pagination.totalPages}
+              onPageChange={setPage}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Ask */}
+      <div className="border-t border-gray-200 pt-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <MessageCircle className="w-5 h-5 mr-2" />
+          Ask a question
+        </h3>
+        {submitted ? (
+          <div className="flex items-start space-x-2 p-4 bg-success-50 text-success-700 rounded-xl text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            <span>
+              Thanks! Our team will answer shortly and the answer will show up here.{' '}
+              <button onClick={() => setSubmitted(false)} className="underline font-medium">
+                Ask another
+              </button>
+            </span>
+          </div>
+        ) : isAuthenticated ? (
+          <form onSubmit={handleAsk} className="space-y-3">
+            <textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="What would you like to know about this product?"
+              aria-label="Your question"
+              className="block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+              rows={3}
+              maxLength={500}
+            />
+            {questionError && (
+              <p className="text-sm text-danger-600">{questionError}</p>
+            )}
+            <div className="flex justify-end">
+              <Button type="submit" loading={submitting}>
+                Submit Question
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-500">
+            <Link to="/login" className="text-primary-600 hover:text-primary-700 font-medium">Sign in</Link>{' '}
+            to ask a question about this product.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductQuestions;
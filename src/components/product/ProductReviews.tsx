@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Star, ThumbsUp, CheckCircle } from 'lucide-react';
+import { Product, Review, useAuthStore } from '../../store';
+import { Pagination as PaginationInfo, ReviewSort, ReviewSummary } from '../../config/api';
+import reviewService from '../../services/reviewService';
+import { formatDate } from '../../utils/format';
+import useAbortSignal from '../../hooks/useAbortSignal';
+import Button from '../ui/Button';
+import Pagination from '../ui/Pagination';
+import StarRating from '../ui/StarRating';
+import RatingHistogram from './RatingHistogram';
+import ReviewForm from './ReviewForm';
+
+interface ProductReviewsProps {
+  product: Product;
+}
+
+const PAGE_SIZE = 5;
+
+const sortOptions: Array<{ value: ReviewSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'helpful', label: 'Most Helpful' },
+  { value: 'highest', label: 'Highest Rated' },
+  { value: 'lowest', label: 'Lowest Rated' },
+];
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ product }) => {
+  const { isAuthenticated } = useAuthStore();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null while the user's orders are being checked
+  const [canReview, setCanReview] = useState<boolean | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const nextListSignal = useAbortSignal();
+  const nextEligibilitySignal = useAbortSignal();
+
+  useEffect(() => {
+    const signal = nextListSignal();
+    const loadReviews = async () => {
+      setLoading(true);
+      try {
+        const response = await reviewService.getProductReviews(
+          product.id,
+          { page, limit: PAGE_SIZE, sort },
+          { signal }
+        );
+        if (response.success && response.data) {
+          setReviews(response.data.reviews || []);
+          setPagination(response.data.pagination || null);
+          if (response.data.summary) setSummary(response.data.summary);
+          setError(null);
+        } else {
+          setError(response.message || 'Failed to fetch reviews');
+        }
+        setLoading(false);
+      } catch {
+        // Aborted by a newer page or sort; that request owns the loading state
+      }
+    };
+
+    loadReviews();
+  }, [product.id, page, sort, nextListSignal]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setCanReview(false);
+      return;
+    }
+    const signal = nextEligibilitySignal();
+    setCanReview(null);
+    reviewService
+      .canReview(product.id, { signal })
+      .then(setCanReview)
+      .catch(() => {
+        // Aborted on unmount or product change
+      });
+  }, [product.id, isAuthenticated, nextEligibilitySignal]);
+
+  const handleSortChange = (newSort: ReviewSort) => {
+    setSort(newSort);
+    setPage(1);
+  };
+
+  const handleSubmitted = () => {
+    setShowForm(false);
+    setSubmitted(true);
+  };
+
+  const handleHelpful = async (review: Review) => {
+    if (review.votedHelpful) return;
+    // Count the vote right away; the server's copy replaces it
+    const voted = { ...review, helpfulCount: review.helpfulCount + 1, votedHelpful: true };
+    setReviews(current => current.map(item => (item.id === review.id ? voted : item)));
+
+    const response = await reviewService.voteHelpful(review.id);
+    setReviews(current => current.map(item => {
+      if (item.id !== review.id) return item;
+      if (response.success && response.data?.review) return { ...response.data.review, votedHelpful: true };
+      // A conflict means the vote was already counted
+      return response.error?.isConflict ? voted : review;
+    }));
+  };
+
+  const renderWriteReview = () => {
+    if (submitted) {
+      return (
+        <div className="flex items-start space-x-2 p-4 bg-success-50 text-success-700 rounded-xl text-sm">
+          <CheckCircle className="w-5 h-5 flex-shrink-0" />
+          <span>Thanks! Your review will appear once it has been approved.</span>
+        </div>
+      );
+    }
+    if (!isAuthenticated) {
+      return (
+        <p className="text-sm text-gray-500">
+          <Link to="/login" className="text-primary-600 hover:text-primary-700 font-medium">Sign in</Link>{' '}
+          to review products you've purchased.
+        </p>
+      );
+    }
+    if (canReview === null) return null;
+    if (!canReview) {
+      return (
+        <p className="text-sm text-gray-500">
+          Only customers who have received this product can review it.
+        </p>
+      );
+    }
+    return showForm ? null : (
+      <Button onClick={() => setShowForm(true)}>Write a Review</Button>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid md:grid-cols-2 gap-8">
+        {summary ? (
+          <RatingHistogram summary={summary} />
+        ) : (
+          // Without a summary from the API, the product's own rating stands in
+          <div className="flex items-center space-x-4">
+            <span className="text-4xl font-bold text-gray-900">{product.rating.toFixed(1)}</span>
+            <div>
+              <StarRating value={product.rating} />
+              <p className="text-sm text-gray-500 mt-1">{product.reviewCount} reviews</p>
+            </div>
+          </div>
+        )}
+        <div className="flex flex-col justify-center space-y-3">
+          <h3 className="text-lg font-medium text-gray-900">Share your thoughts</h3>
+          {renderWriteReview()}
+        </div>
+      </div>
+
+      {showForm && (
+        <ReviewForm
+          productId={product.id}
+          onSubmitted={handleSubmitted}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      <div className="border-t border-gray-200 pt-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">Customer Reviews</h3>
+          <select
+            value={sort}
+            onChange={(e) => handleSortChange(e.target.value as ReviewSort)}
+            aria-label="Sort reviews"
+            className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading && reviews.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading reviews...</p>
+          </div>
+        ) : error && reviews.length === 0 ? (
+          <p className="text-center py-12 text-danger-600">{error}</p>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-12">
+            <Star className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No reviews yet
+            </h3>
+            <p className="text-gray-500">
+              Be the first to review this product
+            </p>
+          </div>
+        ) : (
+          <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+            {reviews.map(review => (
+              <article key={review.id} className="pb-6 border-b border-gray-100 last:border-b-0">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-3">
+                    <StarRating value={review.rating} size="sm" />
+                    <h4 className="font-semibold text-gray-900">{review.title}</h4>
+                  </div>
+                  <span className="text-sm text-gray-500">{formatDate(review.createdAt)}</span>
+                </div>
+                <div className="flex items-center space-x-2 text-sm text-gray-500 mb-3">
+                  <span>{review.userName}</span>
+                  {review.verifiedPurchase && (
+                    <span className="flex items-center text-success-600">
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Verified purchase
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-700 leading-relaxed whitespace-pre-line">{review.body}</p>
+                <button
+                  onClick={() => handleHelpful(review)}
+                  disabled={!isAuthenticated || review.votedHelpful}
+                  title={isAuthenticated ? undefined : 'Sign in to vote'}
+                  className={`mt-3 flex items-center text-sm transition-colors ${
+                    review.votedHelpful ? 'text-primary-600' : 'text-gray-500 hover:text-primary-600'
+                  } disabled:cursor-default`}
+                >
+                  <ThumbsUp className={`w-4 h-4 mr-1 ${review.votedHelpful ? 'fill-current' : ''}`} />
+                  Helpful ({review.helpfulCount})
+                </button>
+              </article>
+            ))}
+
+            {pagination && (
+              <Pagination
+                currentPage={pagination.currentPage}
+                totalPages={pagination.totalPages}
+                onPageChange={setPage}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ReviewSummary } from '../../config/api';
+import StarRating from '../ui/StarRating';
+
+interface RatingHistogramProps {
+  summary: ReviewSummary;
+}
+
+const RatingHistogram: React.FC<RatingHistogramProps> = ({ summary }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-4">
+        <span className="text-4xl font-bold text-gray-900">
+          {summary.average.toFixed(1)}
+        </span>
+        <div>
+          <StarRating value={summary.average} />
+          <p className="text-sm text-gray-500 mt-1">
+            {summary.total} {summary.total === 1 ? 'review' : 'reviews'}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {([5, 4, 3, 2, 1] as const).map(stars => {
+          const count = summary.distribution[stars];
+          const percentage = summary.total > 0 ? Math.round((count / summary.total) * 100) : 0;
+          return (
+            <div key={stars} className="flex items-center space-x-3 text-sm">
+              <span className="w-12 text-gray-600">{stars} star</span>
+              <div
+                className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+                role="img"
+                aria-label={`${stars} star: ${percentage}%`}
+              >
+                <div
+                  className="h-full bg-warning-400 rounded-full"
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+              <span className="w-10 text-right text-gray-500">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RatingHistogram;
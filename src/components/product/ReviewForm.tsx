@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Review } from '../../store';
+import { FieldErrors } from '../../config/api';
+import reviewService from '../../services/reviewService';
+import Form from '../ui/Form';
+import Input from '../ui/Input';
+import Button from '../ui/Button';
+import StarRating from '../ui/StarRating';
+
+interface ReviewFormProps {
+  productId: string;
+  onSubmitted: (review: Review) => void;
+  onCancel: () => void;
+}
+
+const MIN_BODY_LENGTH = 20;
+
+const validate = (rating: number, title: string, body: string): FieldErrors => {
+  const errors: FieldErrors = {};
+  if (rating < 1) errors.rating = 'Choose a rating';
+  if (!title.trim()) errors.title = 'Add a title';
+  if (body.trim().length < MIN_BODY_LENGTH) {
+    errors.body = `Tell us a bit more (at least ${MIN_BODY_LENGTH} characters)`;
+  }
+  return errors;
+};
+
+const ReviewForm: React.FC<ReviewFormProps> = ({ productId, onSubmitted, onCancel }) => {
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const errors = validate(rating, title, body);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSubmitting(true);
+    const response = await reviewService.submitReview(productId, {
+      rating,
+      title: title.trim(),
+      body: body.trim(),
+    });
+    setSubmitting(false);
+
+    if (response.success && response.data?.review) {
+      onSubmitted(response.data.review);
+    } else if (response.error?.hasFieldErrors) {
+      setFieldErrors(response.error.fieldErrors);
+    } else {
+      setError(response.message || 'Failed to submit review');
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit} errors={fieldErrors} className="space-y-4 p-6 bg-gray-50 rounded-xl">
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">Your rating</label>
+        <StarRating value={rating} onChange={setRating} size="lg" />
+        {fieldErrors.rating && (
+          <p className="text-sm text-danger-600">{fieldErrors.rating}</p>
+        )}
+      </div>
+
+      <Input
+        name="title"
+        label="Title"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Sum up your experience"
+        maxLength={100}
+      />
+
+      <div className="space-y-1">
+        <label htmlFor="review-body" className="block text-sm font-medium text-gray-700">Review</label>
+        <textarea
+          id="review-body"
+          name="body"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="What did you like or dislike? How was the condition on arrival?"
+          className="block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+          rows={5}
+        />
+        {fieldErrors.body && (
+          <p className="text-sm text-danger-600">{fieldErrors.body}</p>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-danger-600">{error}</p>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={submitting}>
+          Submit Review
+        </Button>
+      </div>
+    </Form>
+  );
+};
+
+export default ReviewForm;
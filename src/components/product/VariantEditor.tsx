@@ -0,0 +1,205 @@
+import React from 'react';
+import { Plus, X, RefreshCw } from 'lucide-react';
+import { Product, ProductOption, ProductVariant } from '../../store';
+import { buildVariantCombinations, formatVariantLabel } from '../../services/productVariants';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface VariantEditorProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  // Starting values for newly generated variants
+  defaults: Pick<ProductVariant, 'price' | 'originalPrice' | 'condition'>;
+  onChange: (next: { options: ProductOption[]; variants: ProductVariant[] }) => void;
+}
+
+const cellInputClass =
+  'block w-full rounded-lg border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500 px-2 py-1.5';
+
+// Option axes and the variant grid for the product form. Values are typed
+// as a comma-separated list; variants are generated from the axes and then
+// priced and stocked one by one.
+const VariantEditor: React.FC<VariantEditorProps> = ({ options, variants, defaults, onChange }) => {
+  const updateOption = (index: number, option: ProductOption) => {
+    onChange({ options: options.map((item, i) => (i === index ? option : item)), variants });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ options: options.filter((_, i) => i !== index), variants });
+  };
+
+  const updateVariant = (id: string, changes: Partial<ProductVariant>) => {
+    onChange({
+      options,
+      variants: variants.map(variant => (variant.id === id ? { ...variant, ...changes } : variant)),
+    });
+  };
+
+  const removeVariant = (id: string) => {
+    onChange({ options, variants: variants.filter(variant => variant.id !== id) });
+  };
+
+  const generateVariants = () => {
+    onChange({
+      options,
+      variants: buildVariantCombinations(options, variants, defaults, () => crypto.randomUUID()),
+    });
+  };
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-gray-900">Variants</h4>
+          <p className="text-sm text-gray-500">
+            Optional. With variants, the product's price and stock come from its variants.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ options: [...options, { name: '', values: [] }], variants })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Option
+        </Button>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="flex items-end gap-3">
+          <div className="w-1/3">
+            <Input
+              label="Option"
+              value={option.name}
+              onChange={(e) => updateOption(index, { ...option, name: e.target.value })}
+              placeholder="Storage"
+            />
+          </div>
+          <div className="flex-1">
+            <Input
+              label="Values (comma separated)"
+              value={option.values.join(', ')}
+              onChange={(e) => updateOption(index, { ...option, values: e.target.value.split(',').map(value => value.trim()) })}
+              placeholder="128GB, 256GB, 512GB"
+            />
+          </div>
+          <button
+            onClick={() => removeOption(index)}
+            aria-label="Remove option"
+            className="p-3 text-gray-400 hover:text-danger-500 transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {options.length > 0 && (
+        <Button variant="secondary" size="sm" onClick={generateVariants}>
+          <RefreshCw className="w-4 h-4 mr-1" />
+          {variants.length > 0 ? 'Update Variants' : 'Generate Variants'}
+        </Button>
+      )}
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2 pr-2">Variant</th>
+                <th className="py-2 pr-2">SKU</th>
+                <th className="py-2 pr-2">Price</th>
+                <th className="py-2 pr-2">Original</th>
+                <th className="py-2 pr-2">Condition</th>
+                <th className="py-2 pr-2">Stock</th>
+                <th className="py-2 pr-2">Image URL</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {variants.map(variant => (
+                <tr key={variant.id}>
+                  <td className="py-2 pr-2 whitespace-nowrap font-medium text-gray-900">
+                    {formatVariantLabel(variant, options)}
+                  </td>
+                  <td className="py-2 pr-2 min-w-[7rem]">
+                    <input
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(variant.id, { sku: e.target.value })}
+                      aria-label="SKU"
+                      className={cellInputClass}
+                    />
+                  </td>
+                  <td className="py-2 pr-2 min-w-[6rem]">
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={variant.price}
+                      onChange={(e) => updateVariant(variant.id, { price: parseFloat(e.target.value) || 0 })}
+                      aria-label="Price"
+                      className={cellInputClass}
+                    />
+                  </td>
+                  <td className="py-2 pr-2 min-w-[6rem]">
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={variant.originalPrice ?? ''}
+                      onChange={(e) => updateVariant(variant.id, {
+                        originalPrice: e.target.value ? parseFloat(e.target.value) : undefined,
+                      })}
+                      aria-label="Original price"
+                      className={cellInputClass}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={variant.condition}
+                      onChange={(e) => updateVariant(variant.id, { condition: e.target.value as Product['condition'] })}
+                      aria-label="Condition"
+                      className={cellInputClass}
+                    >
+                      <option value="excellent">Excellent</option>
+                      <option value="good">Good</option>
+                      <option value="fair">Fair</option>
+                      <option value="refurbished">Refurbished</option>
+                    </select>
+                  </td>
+                  <td className="py-2 pr-2 min-w-[5rem]">
+                    <input
+                      type="number"
+                      min="0"
+                      value={variant.stockCount}
+                      onChange={(e) => updateVariant(variant.id, { stockCount: parseInt(e.target.value) || 0 })}
+                      aria-label="Stock"
+                      className={cellInputClass}
+                    />
+                  </td>
+                  <td className="py-2 pr-2 min-w-[10rem]">
+                    <input
+                      value={variant.images?.[0] || ''}
+                      onChange={(e) => updateVariant(variant.id, { images: e.target.value ? [e.target.value] : [] })}
+                      placeholder="Product image"
+                      aria-label="Image URL"
+                      className={cellInputClass}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <button
+                      onClick={() => removeVariant(variant.id)}
+                      aria-label="Remove variant"
+                      className="p-1 text-gray-400 hover:text-danger-500 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantEditor;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Product, ProductVariant } from '../../store';
+import { isOptionValueAvailable, selectOptionValue } from '../../services/productVariants';
+
+interface VariantPickerProps {
+  product: Product;
+  selected?: ProductVariant;
+  onSelect: (variant: ProductVariant) => void;
+}
+
+// One row of choices per option axis. Values that are sold out with the
+// other current choices stay selectable but are struck through.
+const VariantPicker: React.FC<VariantPickerProps> = ({ product, selected, onSelect }) => {
+  const selection = selected?.options || {};
+
+  return (
+    <div className="space-y-4">
+      {(product.options || []).map(option => (
+        <div key={option.name}>
+          <p className="font-medium text-gray-900 mb-2">
+            {option.name}:{' '}
+            <span className="font-normal text-gray-600">{selection[option.name] || 'Select'}</span>
+          </p>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={option.name}>
+            {option.values.map(value => {
+              const active = selection[option.name] === value;
+              const available = isOptionValueAvailable(product, selection, option.name, value);
+              return (
+                <button
+                  key={value}
+                  role="radio"
+                  aria-checked={active}
+                  onClick={() => {
+                    const variant = selectOptionValue(product, selected, option.name, value);
+                    if (variant) onSelect(variant);
+                  }}
+                  title={available ? undefined : 'Out of stock in this combination'}
+                  className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                    active
+                      ? 'border-primary-500 bg-primary-50 text-primary-700'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  } ${available ? '' : 'line-through text-gray-400'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VariantPicker;
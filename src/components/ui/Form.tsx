@@ -0,0 +1,31 @@
+import React, { createContext, useContext } from 'react';
+import { FieldErrors } from '../../config/api';
+
+const FieldErrorsContext = createContext<FieldErrors>({});
+
+// Inputs rendered inside a Form pick up their error message by `name`
+export const useFieldError = (name?: string): string | undefined => {
+  const fieldErrors = useContext(FieldErrorsContext);
+  return name ? fieldErrors[name] : undefined;
+};
+
+interface FormProps extends React.FormHTMLAttributes<HTMLFormElement> {
+  errors?: FieldErrors;
+  children: React.ReactNode;
+}
+
+const Form: React.FC<FormProps> = ({
+  errors = {},
+  children,
+  ...props
+}) => {
+  return (
+    <FieldErrorsContext.Provider value={errors}>
+      <form {...props}>
+        {children}
+      </form>
+    </FieldErrorsContext.Provider>
+  );
+};
+
+export default Form;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { cn } from '../../utils/cn';
+import { highlightSegments, TextRange } from '../../services/productSearch';
+
+interface HighlightProps {
+  text: string;
+  ranges?: TextRange[];
+  className?: string;
+}
+
+const Highlight: React.FC<HighlightProps> = ({
+  text,
+  ranges,
+  className,
+}) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {highlightSegments(text, ranges).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className={cn('bg-warning-100 text-inherit rounded-sm', className)}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { cn } from '../../utils/cn';
+import { useFieldError } from './Form';
 
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label?: string;
@@ -14,6 +15,9 @@ const Input: React.FC<InputProps> = ({
   className,
   ...props
 }) => {
+  const fieldError = useFieldError(props.name);
+  const message = error ?? fieldError;
+
   return (
     <div className="space-y-1">
       {label && (
@@ -34,14 +38,14 @@ const Input: React.FC<InputProps> = ({
             'block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 transition-colors duration-200',
             icon ? 'pl-10' : 'pl-4',
             'pr-4 py-3',
-            error ? 'border-danger-300 focus:border-danger-500 focus:ring-danger-500' : '',
+            message ? 'border-danger-300 focus:border-danger-500 focus:ring-danger-500' : '',
             className
           )}
           {...props}
         />
       </div>
-      {error && (
-        <p className="text-sm text-danger-600">{error}</p>
+      {message && (
+        <p className="text-sm text-danger-600">{message}</p>
       )}
     </div>
   );
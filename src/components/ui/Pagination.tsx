@@ -0,0 +1,84 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '../../utils/cn';
+
+interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  siblingCount?: number;
+  className?: string;
+}
+
+// Page numbers to render, with 'ellipsis' standing in for collapsed ranges:
+// 1 … 4 5 6 … 20
+const getPageItems = (currentPage: number, totalPages: number, siblingCount: number) => {
+  const first = Math.max(2, currentPage - siblingCount);
+  const last = Math.min(totalPages - 1, currentPage + siblingCount);
+  const items: Array<number | 'ellipsis'> = [1];
+
+  if (first > 2) items.push('ellipsis');
+  for (let page = first; page <= last; page++) items.push(page);
+  if (last < totalPages - 1) items.push('ellipsis');
+  if (totalPages > 1) items.push(totalPages);
+
+  return items;
+};
+
+const Pagination: React.FC<PaginationProps> = ({
+  currentPage,
+  totalPages,
+  onPageChange,
+  siblingCount = 1,
+  className,
+}) => {
+  if (totalPages <= 1) return null;
+
+  const buttonClasses = 'min-w-[2.5rem] h-10 px-3 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <nav aria-label="Pagination" className={cn('flex items-center justify-center space-x-2', className)}>
+      <button
+        onClick={() => onPageChange(currentPage - 1)}
+        disabled={currentPage <= 1}
+        aria-label="Previous page"
+        className={cn(buttonClasses, 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50')}
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+
+      {getPageItems(currentPage, totalPages, siblingCount).map((item, index) =>
+        item === 'ellipsis' ? (
+          <span key={`ellipsis-${index}`} className="px-2 text-gray-400">
+            …
+          </span>
+        ) : (
+          <button
+            key={item}
+            onClick={() => onPageChange(item)}
+            aria-current={item === currentPage ? 'page' : undefined}
+            className={cn(
+              buttonClasses,
+              item === currentPage
+                ? 'bg-primary-600 text-white shadow'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            {item}
+          </button>
+        )
+      )}
+
+      <button
+        onClick={() => onPageChange(currentPage + 1)}
+        disabled={currentPage >= totalPages}
+        aria-label="Next page"
+        className={cn(buttonClasses, 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50')}
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </nav>
+  );
+};
+
+export default Pagination;
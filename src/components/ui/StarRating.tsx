@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '../../utils/cn';
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars a radio group for picking a rating
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+const sizes = {
+  sm: 'w-4 h-4',
+  md: 'w-5 h-5',
+  lg: 'w-7 h-7',
+};
+
+const StarRating: React.FC<StarRatingProps> = ({
+  value,
+  onChange,
+  size = 'md',
+  className,
+}) => {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || value;
+
+  const renderStar = (stars: number) => (
+    <Star
+      className={cn(
+        sizes[size],
+        stars <= Math.floor(shown) ? 'text-warning-400 fill-current' : 'text-gray-300'
+      )}
+    />
+  );
+
+  if (!onChange) {
+    return (
+      <div className={cn('flex items-center', className)} aria-label={`${value} out of 5 stars`}>
+        {[1, 2, 3, 4, 5].map(stars => (
+          <React.Fragment key={stars}>{renderStar(stars)}</React.Fragment>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Rating"
+      className={cn('flex items-center', className)}
+      onMouseLeave={() => setHovered(0)}
+    >
+      {[1, 2, 3, 4, 5].map(stars => (
+        <button
+          key={stars}
+          type="button"
+          role="radio"
+          aria-checked={value === stars}
+          aria-label={`${stars} ${stars === 1 ? 'star' : 'stars'}`}
+          onClick={() => onChange(stars)}
+          onMouseEnter={() => setHovered(stars)}
+          className="p-0.5 focus:outline-none focus:ring-2 focus:ring-primary-500 rounded"
+        >
+          {renderStar(stars)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
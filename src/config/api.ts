@@ -1,163 +1,814 @@
 // API configuration and base setup
+import type { Product, Category, Order, User, Review, ProductQuestion, CartItem, Coupon, PricingSettings, ShippingMethodId, DeliveryEstimate } from '../store';
+import ApiError from './apiError';
+
+export { ApiError } from './apiError';
+export type { FieldErrors } from './apiError';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
+// Shared response types
+export interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface AuthPayload {
+  user: User;
+  token: string;
+}
+
+// A facet value and how many products in the current result set have it;
+// null when the count can't be known (see services/productFacets)
+export interface FacetCount {
+  value: string;
+  count: number | null;
+}
+
+// `max` is left out for the open-ended top bucket
+export interface PriceFacet {
+  min: number;
+  max?: number;
+  count: number | null;
+}
+
+export interface ProductFacets {
+  brand: FacetCount[];
+  condition: FacetCount[];
+  category: FacetCount[];
+  price: PriceFacet[];
+}
+
+export interface ProductListPayload {
+  products: Product[];
+  pagination?: Pagination;
+  facets?: ProductFacets;
+}
+
+// Count of reviews per star rating, 1 to 5
+export type RatingDistribution = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface ReviewSummary {
+  average: number;
+  total: number;
+  distribution: RatingDistribution;
+}
+
+export interface ReviewListPayload {
+  reviews: Review[];
+  pagination?: Pagination;
+  summary?: ReviewSummary;
+}
+
+export interface QuestionListPayload {
+  questions: ProductQuestion[];
+  pagination?: Pagination;
+}
+
+export interface OrderListPayload {
+  orders: Order[];
+  pagination?: Pagination;
+}
+
+export interface PaymentIntentPayload {
+  clientSecret: string;
+  paymentIntentId: string;
+}
+
+export interface MessagePayload {
+  message: string;
+}
+
+// Request types
+export type ProductInput = Omit<Product, 'id' | 'createdAt'>;
+
+export type CategoryInput = Omit<Category, 'id'>;
+
+export type CouponInput = Omit<Coupon, 'id' | 'usageCount' | 'createdAt'>;
+
+export interface CreateOrderData {
+  items: Array<{
+    product: string;
+    variant?: string;
+    quantity: number;
+  }>;
+  shippingAddress: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+    address: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+  shippingMethod: ShippingMethodId;
+  // As quoted to the customer; stored on the order for the confirmation page
+  deliveryEstimate?: DeliveryEstimate;
+  pickupAddress?: string;
+  paymentMethod: string;
+  // Re-checked by the server; the order is rejected if it no longer applies
+  couponCode?: string;
+  total?: number;
+}
+
+export type UserUpdate = Partial<Omit<User, 'id'>>;
+
+// One cart line as sent to the server
+export interface CartLineInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title: string;
+  body: string;
+}
+
+export type ReviewSort = 'newest' | 'helpful' | 'highest' | 'lowest';
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The backend is not consistent about where it puts the payload. Every
+// endpoint goes through one of these so callers only ever see the payload:
+//   { success, data: T }  |  { success, ...T }  |  T
+//   { data: { key: T } }  |  { key: T }          (entities)
+//   { data: T[] }  |  { data: { key: T[] } }  |  { key: T[] }  |  T[]  (lists)
+export const normalize = {
+  payload<T>(body: unknown): T {
+    if (isRecord(body) && body.data !== undefined) {
+      return body.data as T;
+    }
+    return body as T;
+  },
+
+  entity<T>(body: unknown, key: string): T {
+    const payload = normalize.payload<unknown>(body);
+    if (isRecord(payload) && payload[key] !== undefined) {
+      return payload[key] as T;
+    }
+    if (isRecord(body) && body[key] !== undefined) {
+      return body[key] as T;
+    }
+    return payload as T;
+  },
+
+  list<T>(body: unknown, key: string): T[] {
+    if (Array.isArray(body)) return body as T[];
+
+    const payload = normalize.payload<unknown>(body);
+    if (Array.isArray(payload)) return payload as T[];
+    if (isRecord(payload) && Array.isArray(payload[key])) return payload[key] as T[];
+    if (isRecord(body) && Array.isArray(body[key])) return body[key] as T[];
+    return [];
+  },
+
+  pagination(body: unknown): Pagination | undefined {
+    const payload = normalize.payload<unknown>(body);
+    const source = isRecord(payload) && isRecord(payload.pagination)
+      ? payload.pagination
+      : isRecord(body) && isRecord(body.pagination)
+        ? body.pagination
+        : undefined;
+    if (!source) return undefined;
+
+    const currentPage = Number(source.currentPage ?? source.page ?? 1);
+    const totalPages = Number(source.totalPages ?? source.pages ?? 1);
+    return {
+      currentPage,
+      totalPages,
+      totalItems: Number(
+        source.totalItems ?? source.totalProducts ?? source.totalOrders ?? source.total ?? 0
+      ),
+      hasNextPage: typeof source.hasNextPage === 'boolean' ? source.hasNextPage : currentPage < totalPages,
+      hasPrevPage: typeof source.hasPrevPage === 'boolean' ? source.hasPrevPage : currentPage > 1,
+    };
+  },
+
+  // Accepts `{ distribution: { 5: 10, ... } }` or `{ ratingDistribution: [...] }`
+  // (counts for 1 to 5 stars, in order)
+  reviewSummary(body: unknown): ReviewSummary | undefined {
+    const payload = normalize.payload<unknown>(body);
+    const source = isRecord(payload) && isRecord(payload.summary)
+      ? payload.summary
+      : isRecord(body) && isRecord(body.summary)
+        ? body.summary
+        : undefined;
+    if (!source) return undefined;
+
+    const raw = source.distribution ?? source.ratingDistribution;
+    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } as RatingDistribution;
+    ([1, 2, 3, 4, 5] as const).forEach(stars => {
+      const count = Array.isArray(raw) ? raw[stars - 1] : isRecord(raw) ? raw[stars] : 0;
+      distribution[stars] = Number(count ?? 0);
+    });
+    const total = Number(source.total ?? source.count ?? Object.values(distribution).reduce((sum, count) => sum + count, 0));
+
+    return {
+      average: Number(source.average ?? source.averageRating ?? 0),
+      total,
+      distribution,
+    };
+  },
+
+  // Accepts `{ brand: [{ value, count }] }` as well as `{ brands: { Apple: 3 } }`
+  facets(body: unknown): ProductFacets | undefined {
+    const payload = normalize.payload<unknown>(body);
+    const source = isRecord(payload) && isRecord(payload.facets)
+      ? payload.facets
+      : isRecord(body) && isRecord(body.facets)
+        ? body.facets
+        : undefined;
+    if (!source) return undefined;
+
+    const counts = (value: unknown): FacetCount[] => {
+      if (Array.isArray(value)) {
+        return value.filter(isRecord).map(item => ({
+          value: String(item.value ?? item.name ?? item._id),
+          count: Number(item.count ?? 0),
+        }));
+      }
+      if (isRecord(value)) {
+        return Object.entries(value).map(([key, count]) => ({ value: key, count: Number(count) }));
+      }
+      return [];
+    };
+    const price = source.price ?? source.priceRanges;
+
+    return {
+      brand: counts(source.brand ?? source.brands),
+      condition: counts(source.condition ?? source.conditions),
+      category: counts(source.category ?? source.categories),
+      price: Array.isArray(price)
+        ? price.filter(isRecord).map(item => ({
+            min: Number(item.min ?? 0),
+            max: item.max === undefined || item.max === null ? undefined : Number(item.max),
+            count: Number(item.count ?? 0),
+          }))
+        : [],
+    };
+  },
+};
+
+// Per-call controls accepted by every endpoint
+export interface CallOptions {
+  // Cancels the request (and any pending retries) when aborted
+  signal?: AbortSignal;
+  // Overrides api.defaults for this call
+  retries?: number;
+  timeoutMs?: number;
+  // Sent as the Idempotency-Key header. The server runs a keyed request at
+  // most once, so keyed POSTs are retried like idempotent verbs.
+  idempotencyKey?: string;
+}
+
+export interface RequestOptions extends Omit<RequestInit, 'signal'>, CallOptions {}
+
+// Only verbs that are safe to repeat get retried; a retried POST could
+// create a second order unless it carries an idempotency key.
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Exponential backoff with full jitter, honouring Retry-After when the server sends it
+const getRetryDelay = (attempt: number, error: ApiError): number => {
+  const { retryBaseDelayMs, retryMaxDelayMs } = api.defaults;
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, retryMaxDelayMs);
+  }
+  const ceiling = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(ApiError.aborted());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(ApiError.aborted());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// One fetch attempt, bounded by the call's timeout and the caller's signal
+const send = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<unknown> => {
+  if (signal?.aborted) throw ApiError.aborted();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) throw ApiError.timeout(timeoutMs);
+      if (signal?.aborted) throw ApiError.aborted();
+      throw ApiError.network(error);
+    }
+
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response);
+    }
+
+    // 204 No Content and friends
+    const text = await response.text();
+    return text ? JSON.parse(text) : {};
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
 export const api = {
   baseURL: API_BASE_URL,
-  
-  // Helper method for making requests
-  async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+
+  defaults: {
+    retries: 2,
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 8000,
+    timeoutMs: 15000,
+  },
+
+  // Helper method for making requests. Returns the raw JSON body; endpoints
+  // below run it through `normalize` so their return types are accurate.
+  // Every failure is thrown as an ApiError. Idempotent verbs and keyed
+  // requests are retried on retryable failures; pass a `signal` to cancel.
+  async request(endpoint: string, options: RequestOptions = {}): Promise<unknown> {
+    const { signal, retries, timeoutMs = api.defaults.timeoutMs, idempotencyKey, ...init } = options;
     const url = `${API_BASE_URL}${endpoint}`;
     const token = localStorage.getItem('auth-token');
-    
+    const method = (init.method || 'GET').toUpperCase();
+    const canRetry = IDEMPOTENT_METHODS.has(method) || Boolean(idempotencyKey);
+    const maxRetries = canRetry ? (retries ?? api.defaults.retries) : 0;
+
     const config: RequestInit = {
+      ...init,
       headers: {
         'Content-Type': 'application/json',
         ...(token && { Authorization: `Bearer ${token}` }),
-        ...options.headers,
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+        ...init.headers,
       },
-      ...options,
     };
 
-    try {
-      const response = await fetch(url, config);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send(url, config, timeoutMs, signal);
+      } catch (error) {
+        const apiError = ApiError.from(error);
+        if (apiError.isAborted) throw apiError;
+
+        if (!apiError.retryable || attempt >= maxRetries) {
+          console.error('API request failed:', apiError);
+          throw apiError;
+        }
+
+        console.warn(`API request failed, retrying (${attempt + 1}/${maxRetries}):`, apiError.message);
+        await wait(getRetryDelay(attempt, apiError), signal);
       }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
     }
   },
 
   // Auth endpoints
   auth: {
-    login: (email: string, password: string) =>
-      api.request('/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ email, password }),
-      }),
-    
-    register: (name: string, email: string, password: string) =>
-      api.request('/auth/register', {
-        method: 'POST',
-        body: JSON.stringify({ name, email, password }),
-      }),
-    
-    getMe: () => api.request('/auth/me'),
-    
-    logout: () => api.request('/auth/logout', { method: 'POST' }),
+    login: async (email: string, password: string, options?: CallOptions): Promise<AuthPayload> =>
+      normalize.payload<AuthPayload>(
+        await api.request('/auth/login', {
+          method: 'POST',
+          body: JSON.stringify({ email, password }),
+          ...options,
+        })
+      ),
+
+    register: async (name: string, email: string, password: string, options?: CallOptions): Promise<AuthPayload> =>
+      normalize.payload<AuthPayload>(
+        await api.request('/auth/register', {
+          method: 'POST',
+          body: JSON.stringify({ name, email, password }),
+          ...options,
+        })
+      ),
+
+    getMe: async (options?: CallOptions): Promise<User> =>
+      normalize.entity<User>(await api.request('/auth/me', options), 'user'),
+
+    logout: async (options?: CallOptions): Promise<void> => {
+      await api.request('/auth/logout', { method: 'POST', ...options });
+    },
   },
 
   // Products endpoints
   products: {
-    getAll: (params?: URLSearchParams) =>
-      api.request(`/products${params ? `?${params.toString()}` : ''}`),
-    
-    getById: (id: string) => api.request(`/products/${id}`),
-    
-    create: (productData: any) =>
-      api.request('/products', {
-        method: 'POST',
-        body: JSON.stringify(productData),
-      }),
-    
-    update: (id: string, productData: any) =>
-      api.request(`/products/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(productData),
-      }),
-    
-    delete: (id: string) =>
-      api.request(`/products/${id}`, { method: 'DELETE' }),
+    getAll: async (params?: URLSearchParams, options?: CallOptions): Promise<ProductListPayload> => {
+      const body = await api.request(`/products${params ? `?${params.toString()}` : ''}`, options);
+      return {
+        products: normalize.list<Product>(body, 'products'),
+        pagination: normalize.pagination(body),
+        facets: normalize.facets(body),
+      };
+    },
+
+    getById: async (id: string, options?: CallOptions): Promise<Product> =>
+      normalize.entity<Product>(await api.request(`/products/${id}`, options), 'product'),
+
+    create: async (productData: ProductInput, options?: CallOptions): Promise<Product> =>
+      normalize.entity<Product>(
+        await api.request('/products', {
+          method: 'POST',
+          body: JSON.stringify(productData),
+          ...options,
+        }),
+        'product'
+      ),
+
+    update: async (id: string, productData: Partial<ProductInput>, options?: CallOptions): Promise<Product> =>
+      normalize.entity<Product>(
+        await api.request(`/products/${id}`, {
+          method: 'PUT',
+          body: JSON.stringify(productData),
+          ...options,
+        }),
+        'product'
+      ),
+
+    delete: async (id: string, options?: CallOptions): Promise<MessagePayload> =>
+      normalize.payload<MessagePayload>(
+        await api.request(`/products/${id}`, { method: 'DELETE', ...options })
+      ),
   },
 
   // Categories endpoints
   categories: {
-    getAll: () => api.request('/categories'),
-    
-    getById: (id: string) => api.request(`/categories/${id}`),
-    
-    getBySlug: (slug: string) => api.request(`/categories/slug/${slug}`),
-    
-    create: (categoryData: any) =>
-      api.request('/categories', {
-        method: 'POST',
-        body: JSON.stringify(categoryData),
-      }),
-    
-    update: (id: string, categoryData: any) =>
-      api.request(`/categories/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(categoryData),
-      }),
-    
-    delete: (id: string) =>
-      api.request(`/categories/${id}`, { method: 'DELETE' }),
+    getAll: async (options?: CallOptions): Promise<Category[]> =>
+      normalize.list<Category>(await api.request('/categories', options), 'categories'),
+
+    getById: async (id: string, options?: CallOptions): Promise<Category> =>
+      normalize.entity<Category>(await api.request(`/categories/${id}`, options), 'category'),
+
+    getBySlug: async (slug: string, options?: CallOptions): Promise<Category> =>
+      normalize.entity<Category>(await api.request(`/categories/slug/${slug}`, options), 'category'),
+
+    create: async (categoryData: CategoryInput, options?: CallOptions): Promise<Category> =>
+      normalize.entity<Category>(
+        await api.request('/categories', {
+          method: 'POST',
+          body: JSON.stringify(categoryData),
+          ...options,
+        }),
+        'category'
+      ),
+
+    update: async (id: string, categoryData: Partial<CategoryInput>, options?: CallOptions): Promise<Category> =>
+      normalize.entity<Category>(
+        await api.request(`/categories/${id}`, {
+          method: 'PUT',
+          body: JSON.stringify(categoryData),
+          ...options,
+        }),
+        'category'
+      ),
+
+    delete: async (id: string, options?: CallOptions): Promise<MessagePayload> =>
+      normalize.payload<MessagePayload>(
+        await api.request(`/categories/${id}`, { method: 'DELETE', ...options })
+      ),
+  },
+
+  // Wishlist endpoints; each returns the account's whole wishlist
+  wishlist: {
+    get: async (options?: CallOptions): Promise<Product[]> =>
+      normalize.list<Product>(await api.request('/wishlist', options), 'products'),
+
+    add: async (productId: string, options?: CallOptions): Promise<Product[]> =>
+      normalize.list<Product>(
+        await api.request('/wishlist', {
+          method: 'POST',
+          body: JSON.stringify({ productId }),
+          ...options,
+        }),
+        'products'
+      ),
+
+    remove: async (productId: string, options?: CallOptions): Promise<Product[]> =>
+      normalize.list<Product>(
+        await api.request(`/wishlist/${productId}`, { method: 'DELETE', ...options }),
+        'products'
+      ),
+
+    // Adds a guest's saved items to the account wishlist
+    merge: async (productIds: string[], options?: CallOptions): Promise<Product[]> =>
+      normalize.list<Product>(
+        await api.request('/wishlist/merge', {
+          method: 'POST',
+          body: JSON.stringify({ productIds }),
+          ...options,
+        }),
+        'products'
+      ),
+  },
+
+  // Cart endpoints for signed-in users; each returns the account's whole cart
+  cart: {
+    get: async (options?: CallOptions): Promise<CartItem[]> =>
+      normalize.list<CartItem>(await api.request('/cart', options), 'items'),
+
+    // Replaces the account cart with these lines
+    replace: async (items: CartLineInput[], options?: CallOptions): Promise<CartItem[]> =>
+      normalize.list<CartItem>(
+        await api.request('/cart', {
+          method: 'PUT',
+          body: JSON.stringify({ items }),
+          ...options,
+        }),
+        'items'
+      ),
+
+    // Folds a guest cart into the account cart. Lines for the same product
+    // and variant keep the larger of the two quantities, other lines from
+    // both carts are kept, and quantities are capped at available stock.
+    merge: async (items: CartLineInput[], options?: CallOptions): Promise<CartItem[]> =>
+      normalize.list<CartItem>(
+        await api.request('/cart/merge', {
+          method: 'POST',
+          body: JSON.stringify({ items }),
+          ...options,
+        }),
+        'items'
+      ),
+  },
+
+  // Coupon endpoints
+  coupons: {
+    // Checks a code against the cart. Codes that can't be used fail with a
+    // 4xx whose message says why (expired, minimum spend not met, ...).
+    validate: async (code: string, items: CartLineInput[], options?: CallOptions): Promise<Coupon> =>
+      normalize.entity<Coupon>(
+        await api.request('/coupons/validate', {
+          method: 'POST',
+          body: JSON.stringify({ code, items }),
+          ...options,
+        }),
+        'coupon'
+      ),
+
+    getAll: async (options?: CallOptions): Promise<Coupon[]> =>
+      normalize.list<Coupon>(await api.request('/coupons', options), 'coupons'),
+
+    create: async (couponData: CouponInput, options?: CallOptions): Promise<Coupon> =>
+      normalize.entity<Coupon>(
+        await api.request('/coupons', {
+          method: 'POST',
+          body: JSON.stringify(couponData),
+          ...options,
+        }),
+        'coupon'
+      ),
+
+    update: async (id: string, couponData: Partial<CouponInput>, options?: CallOptions): Promise<Coupon> =>
+      normalize.entity<Coupon>(
+        await api.request(`/coupons/${id}`, {
+          method: 'PUT',
+          body: JSON.stringify(couponData),
+          ...options,
+        }),
+        'coupon'
+      ),
+
+    delete: async (id: string, options?: CallOptions): Promise<MessagePayload> =>
+      normalize.payload<MessagePayload>(
+        await api.request(`/coupons/${id}`, { method: 'DELETE', ...options })
+      ),
+  },
+
+  // Reviews endpoints
+  reviews: {
+    getForProduct: async (productId: string, params?: URLSearchParams, options?: CallOptions): Promise<ReviewListPayload> => {
+      const body = await api.request(`/products/${productId}/reviews${params ? `?${params.toString()}` : ''}`, options);
+      return {
+        reviews: normalize.list<Review>(body, 'reviews'),
+        pagination: normalize.pagination(body),
+        summary: normalize.reviewSummary(body),
+      };
+    },
+
+    // New reviews are held for moderation, so this returns a pending review
+    create: async (productId: string, review: ReviewInput, options?: CallOptions): Promise<Review> =>
+      normalize.entity<Review>(
+        await api.request(`/products/${productId}/reviews`, {
+          method: 'POST',
+          body: JSON.stringify(review),
+          ...options,
+        }),
+        'review'
+      ),
+
+    voteHelpful: async (reviewId: string, options?: CallOptions): Promise<Review> =>
+      normalize.entity<Review>(
+        await api.request(`/reviews/${reviewId}/helpful`, { method: 'POST', ...options }),
+        'review'
+      ),
+
+    getModerationQueue: async (params?: URLSearchParams, options?: CallOptions): Promise<ReviewListPayload> => {
+      const body = await api.request(`/reviews/admin${params ? `?${params.toString()}` : ''}`, options);
+      return {
+        reviews: normalize.list<Review>(body, 'reviews'),
+        pagination: normalize.pagination(body),
+      };
+    },
+
+    moderate: async (reviewId: string, status: Review['status'], options?: CallOptions): Promise<Review> =>
+      normalize.entity<Review>(
+        await api.request(`/reviews/${reviewId}/status`, {
+          method: 'PUT',
+          body: JSON.stringify({ status }),
+          ...options,
+        }),
+        'review'
+      ),
+  },
+
+  // Product Q&A endpoints; product pages only list answered questions
+  questions: {
+    getForProduct: async (productId: string, params?: URLSearchParams, options?: CallOptions): Promise<QuestionListPayload> => {
+      const body = await api.request(`/products/${productId}/questions${params ? `?${params.toString()}` : ''}`, options);
+      return {
+        questions: normalize.list<ProductQuestion>(body, 'questions'),
+        pagination: normalize.pagination(body),
+      };
+    },
+
+    ask: async (productId: string, question: string, options?: CallOptions): Promise<ProductQuestion> =>
+      normalize.entity<ProductQuestion>(
+        await api.request(`/products/${productId}/questions`, {
+          method: 'POST',
+          body: JSON.stringify({ question }),
+          ...options,
+        }),
+        'question'
+      ),
+
+    getAdminQueue: async (params?: URLSearchParams, options?: CallOptions): Promise<QuestionListPayload> => {
+      const body = await api.request(`/questions/admin${params ? `?${params.toString()}` : ''}`, options);
+      return {
+        questions: normalize.list<ProductQuestion>(body, 'questions'),
+        pagination: normalize.pagination(body),
+      };
+    },
+
+    answer: async (questionId: string, answer: string, options?: CallOptions): Promise<ProductQuestion> =>
+      normalize.entity<ProductQuestion>(
+        await api.request(`/questions/${questionId}/answer`, {
+          method: 'PUT',
+          body: JSON.stringify({ answer }),
+          ...options,
+        }),
+        'question'
+      ),
   },
 
   // Orders endpoints
   orders: {
-    create: (orderData: any) =>
-      api.request('/orders', {
-        method: 'POST',
-        body: JSON.stringify(orderData),
-      }),
-    
-    getUserOrders: () => api.request('/orders'),
-    
-    getById: (id: string) => api.request(`/orders/${id}`),
-    
-    getAllAdmin: () => api.request('/orders/admin/all'),
-    
-    updateStatus: (id: string, status: string, trackingNumber?: string) =>
-      api.request(`/orders/${id}/status`, {
-        method: 'PUT',
-        body: JSON.stringify({ status, trackingNumber }),
-      }),
+    create: async (orderData: CreateOrderData, options?: CallOptions): Promise<Order> =>
+      normalize.entity<Order>(
+        await api.request('/orders', {
+          method: 'POST',
+          body: JSON.stringify(orderData),
+          ...options,
+        }),
+        'order'
+      ),
+
+    getUserOrders: async (params?: URLSearchParams, options?: CallOptions): Promise<OrderListPayload> => {
+      const body = await api.request(`/orders${params ? `?${params.toString()}` : ''}`, options);
+      return {
+        orders: normalize.list<Order>(body, 'orders'),
+        pagination: normalize.pagination(body),
+      };
+    },
+
+    // Signed-in customers see their own orders; anyone else needs the
+    // order's lookup token
+    getById: async (id: string, lookupToken?: string, options?: CallOptions): Promise<Order> => {
+      const query = lookupToken ? `?token=${encodeURIComponent(lookupToken)}` : '';
+      return normalize.entity<Order>(await api.request(`/orders/${id}${query}`, options), 'order');
+    },
+
+    getAllAdmin: async (options?: CallOptions): Promise<OrderListPayload> => {
+      const body = await api.request('/orders/admin/all', options);
+      return {
+        orders: normalize.list<Order>(body, 'orders'),
+        pagination: normalize.pagination(body),
+      };
+    },
+
+    updateStatus: async (id: string, status: Order['status'], trackingNumber?: string, options?: CallOptions): Promise<Order> =>
+      normalize.entity<Order>(
+        await api.request(`/orders/${id}/status`, {
+          method: 'PUT',
+          body: JSON.stringify({ status, trackingNumber }),
+          ...options,
+        }),
+        'order'
+      ),
   },
 
   // Payments endpoints
   payments: {
-    createPaymentIntent: (amount: number, orderId?: string) =>
-      api.request('/payments/create-payment-intent', {
-        method: 'POST',
-        body: JSON.stringify({ amount, orderId }),
-      }),
-    
-    confirmPayment: (paymentIntentId: string, orderId: string) =>
-      api.request('/payments/confirm-payment', {
-        method: 'POST',
-        body: JSON.stringify({ paymentIntentId, orderId }),
-      }),
+    createPaymentIntent: async (amount: number, orderId?: string, options?: CallOptions): Promise<PaymentIntentPayload> =>
+      normalize.payload<PaymentIntentPayload>(
+        await api.request('/payments/create-payment-intent', {
+          method: 'POST',
+          body: JSON.stringify({ amount, orderId }),
+          ...options,
+        })
+      ),
+
+    confirmPayment: async (paymentIntentId: string, orderId: string, options?: CallOptions): Promise<Order> =>
+      normalize.entity<Order>(
+        await api.request('/payments/confirm-payment', {
+          method: 'POST',
+          body: JSON.stringify({ paymentIntentId, orderId }),
+          ...options,
+        }),
+        'order'
+      ),
+  },
+
+  // Store settings endpoints; pricing is public so the storefront can total carts
+  settings: {
+    getPricing: async (options?: CallOptions): Promise<PricingSettings> =>
+      normalize.entity<PricingSettings>(await api.request('/settings/pricing', options), 'settings'),
+
+    updatePricing: async (pricing: PricingSettings, options?: CallOptions): Promise<PricingSettings> =>
+      normalize.entity<PricingSettings>(
+        await api.request('/settings/pricing', {
+          method: 'PUT',
+          body: JSON.stringify(pricing),
+          ...options,
+        }),
+        'settings'
+      ),
   },
 
   // Users endpoints
   users: {
-    getProfile: () => api.request('/users/profile'),
-    
-    updateProfile: (userData: any) =>
-      api.request('/users/profile', {
-        method: 'PUT',
-        body: JSON.stringify(userData),
-      }),
-    
-    getAllUsers: () => api.request('/users/users'),
-    
-    getUserById: (id: string) => api.request(`/users/users/${id}`),
-    
-    updateUser: (id: string, userData: any) =>
-      api.request(`/users/users/${id}`, {
-        method: 'PUT',
-        body: JSON.stringify(userData),
-      }),
-    
-    deleteUser: (id: string) =>
-      api.request(`/users/users/${id}`, { method: 'DELETE' }),
+    getProfile: async (options?: CallOptions): Promise<User> =>
+      normalize.entity<User>(await api.request('/users/profile', options), 'user'),
+
+    updateProfile: async (userData: UserUpdate, options?: CallOptions): Promise<User> =>
+      normalize.entity<User>(
+        await api.request('/users/profile', {
+          method: 'PUT',
+          body: JSON.stringify(userData),
+          ...options,
+        }),
+        'user'
+      ),
+
+    getAllUsers: async (options?: CallOptions): Promise<User[]> =>
+      normalize.list<User>(await api.request('/users/users', options), 'users'),
+
+    getUserById: async (id: string, options?: CallOptions): Promise<User> =>
+      normalize.entity<User>(await api.request(`/users/users/${id}`, options), 'user'),
+
+    updateUser: async (id: string, userData: UserUpdate, options?: CallOptions): Promise<User> =>
+      normalize.entity<User>(
+        await api.request(`/users/users/${id}`, {
+          method: 'PUT',
+          body: JSON.stringify(userData),
+          ...options,
+        }),
+        'user'
+      ),
+
+    deleteUser: async (id: string, options?: CallOptions): Promise<MessagePayload> =>
+      normalize.payload<MessagePayload>(
+        await api.request(`/users/users/${id}`, { method: 'DELETE', ...options })
+      ),
   },
 };
 
-export default api;
\ No newline at end of file
+export default api;
@@ -0,0 +1,207 @@
+// Error type thrown by api.request for every failed call
+export type FieldErrors = Record<string, string>;
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const STATUS_CODES: Record<number, string> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  408: 'timeout',
+  409: 'conflict',
+  422: 'validation_failed',
+  429: 'rate_limited',
+};
+
+const codeForStatus = (status: number): string => {
+  if (status === 0) return 'network_error';
+  if (STATUS_CODES[status]) return STATUS_CODES[status];
+  return status >= 500 ? 'server_error' : 'http_error';
+};
+
+// Network failures, timeouts, rate limiting and gateway errors are worth
+// retrying; anything else will fail the same way again.
+const isRetryableStatus = (status: number): boolean =>
+  status === 0 || status === 408 || status === 429 || (status >= 500 && status !== 501);
+
+// Accepts the validation formats the backend produces:
+//   { errors: [{ path | param | field, msg | message }] }   (express-validator)
+//   { errors: { field: 'message' | ['message'] | { message } } }   (mongoose / custom)
+const parseFieldErrors = (body: JsonRecord): FieldErrors => {
+  const source = body.errors ?? body.fieldErrors;
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(source)) {
+    source.forEach((entry) => {
+      if (!isRecord(entry)) return;
+      const field = entry.path ?? entry.param ?? entry.field;
+      const message = entry.msg ?? entry.message;
+      if (typeof field === 'string' && typeof message === 'string' && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (isRecord(source)) {
+    Object.entries(source).forEach(([field, value]) => {
+      if (typeof value === 'string') {
+        fieldErrors[field] = value;
+      } else if (Array.isArray(value) && typeof value[0] === 'string') {
+        fieldErrors[field] = value[0];
+      } else if (isRecord(value) && typeof value.message === 'string') {
+        fieldErrors[field] = value.message;
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+interface ApiErrorOptions {
+  status: number;
+  code?: string;
+  fieldErrors?: FieldErrors;
+  retryable?: boolean;
+  retryAfterMs?: number;
+  existingId?: string;
+  lookupToken?: string;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  // HTTP status, or 0 when the request never got a response.
+  readonly status: number;
+  // Machine-readable code, from the response body when the server sends one.
+  readonly code: string;
+  // Validation messages keyed by input name.
+  readonly fieldErrors: FieldErrors;
+  // Whether repeating the same request could succeed.
+  readonly retryable: boolean;
+  // How long the server asked us to wait before retrying, if it said.
+  readonly retryAfterMs?: number;
+  // For a duplicate request, the id of what the first request created, and
+  // the token guests need to read it.
+  readonly existingId?: string;
+  readonly lookupToken?: string;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code || codeForStatus(options.status);
+    this.fieldErrors = options.fieldErrors || {};
+    this.retryable = options.retryable ?? isRetryableStatus(options.status);
+    this.retryAfterMs = options.retryAfterMs;
+    this.existingId = options.existingId;
+    this.lookupToken = options.lookupToken;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  static async fromResponse(response: Response): Promise<ApiError> {
+    const body: unknown = await response.json().catch(() => ({}));
+    const record = isRecord(body) ? body : {};
+    const fieldErrors = parseFieldErrors(record);
+    const message = typeof record.message === 'string'
+      ? record.message
+      : typeof record.error === 'string'
+        ? record.error
+        : `HTTP error! status: ${response.status}`;
+
+    return new ApiError(message, {
+      status: response.status,
+      code: typeof record.code === 'string' ? record.code : undefined,
+      fieldErrors,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      existingId: typeof record.existingId === 'string' ? record.existingId : undefined,
+      lookupToken: typeof record.lookupToken === 'string' ? record.lookupToken : undefined,
+    });
+  }
+
+  static network(cause: unknown): ApiError {
+    return new ApiError('Unable to reach the server. Check your connection and try again.', {
+      status: 0,
+      cause,
+    });
+  }
+
+  static timeout(timeoutMs: number): ApiError {
+    return new ApiError(`The server took longer than ${Math.round(timeoutMs / 1000)}s to respond.`, {
+      status: 0,
+      code: 'timeout',
+      retryable: true,
+    });
+  }
+
+  // The caller cancelled the request; nothing to report or retry
+  static aborted(): ApiError {
+    return new ApiError('The request was cancelled.', {
+      status: 0,
+      code: 'aborted',
+      retryable: false,
+    });
+  }
+
+  // Wraps anything thrown by a service call so callers can rely on the shape.
+  static from(error: unknown, fallbackMessage = 'Something went wrong'): ApiError {
+    if (error instanceof ApiError) return error;
+    const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+    return new ApiError(message, { status: 0, code: 'unknown_error', retryable: false, cause: error });
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0 && this.code === 'network_error';
+  }
+
+  get isTimeout(): boolean {
+    return this.code === 'timeout';
+  }
+
+  get isAborted(): boolean {
+    return this.code === 'aborted';
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get isForbidden(): boolean {
+    return this.status === 403;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  get isConflict(): boolean {
+    return this.status === 409;
+  }
+
+  // The idempotency key was already used: the first request went through (or
+  // is still running) and `existingId` points at its result
+  get isDuplicateRequest(): boolean {
+    return this.status === 409 && this.code === 'duplicate_request';
+  }
+
+  // The card was declined or the payment couldn't be authenticated
+  get isPaymentFailed(): boolean {
+    return this.status === 402;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+export default ApiError;
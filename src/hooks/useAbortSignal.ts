@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Hands out one AbortSignal per request. Asking for a new signal cancels the
+// previous request, and whatever is still in flight is cancelled on unmount.
+export const useAbortSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+};
+
+export default useAbortSignal;
@@ -0,0 +1,14 @@
+import { useCartStore, useSettingsStore } from '../store';
+import { TotalsOptions, calculateTotals } from '../services/pricing';
+
+// Totals for the current cart; re-renders when the lines, the promo code or
+// the store's pricing settings change. Tax is an estimate until the shipping
+// address is passed in.
+export const useCartTotals = (options?: TotalsOptions) => {
+  const items = useCartStore(state => state.items);
+  const coupon = useCartStore(state => state.coupon);
+  const pricing = useSettingsStore(state => state.pricing);
+  return calculateTotals(items, coupon, pricing, options);
+};
+
+export default useCartTotals;
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { useCartStore } from '../store';
+import useAbortSignal from './useAbortSignal';
+
+// Checks the cart against the latest product data whenever `active` turns
+// on, e.g. when a cart view opens
+export const useCartValidation = (active = true) => {
+  const { revalidate } = useCartStore();
+  const nextSignal = useAbortSignal();
+
+  useEffect(() => {
+    if (!active) return;
+    revalidate({ signal: nextSignal() });
+  }, [active, revalidate, nextSignal]);
+};
+
+export default useCartValidation;
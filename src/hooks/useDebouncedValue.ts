@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+// Follows `value`, but only once it has stopped changing for `delayMs`
+export const useDebouncedValue = <T>(value: T, delayMs: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+};
+
+export default useDebouncedValue;
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+// Calls `onLoadMore` whenever the returned sentinel element scrolls into
+// view (with some margin, so the next page is usually ready in time)
+export const useInfiniteScroll = <T extends Element>(
+  onLoadMore: () => void,
+  enabled: boolean,
+  rootMargin = '400px'
+) => {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return sentinelRef;
+};
+
+export default useInfiniteScroll;
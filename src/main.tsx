@@ -1,8 +1,13 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { assertPaymentProviderConfigured } from './services/paymentProviders';
 import './index.css';
 
+// Hosted payment providers are added with registerPaymentProvider before
+// this check; checkout can't work without the one VITE_PAYMENT_PROVIDER names
+assertPaymentProviderConfigured();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
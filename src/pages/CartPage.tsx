@@ -1,11 +1,20 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ShoppingBag, Plus, Minus, X, ArrowRight, Shield, Truck } from 'lucide-react';
-import { useCartStore } from '../store';
-import { formatPrice } from '../utils/format';
+import { ShoppingBag, Plus, Minus, X, ArrowRight, Shield, Truck, Heart } from 'lucide-react';
+import { useCartStore, useSettingsStore, useWishlistStore } from '../store';
+import { formatPrice, formatCondition } from '../utils/format';
+import { formatVariantLabel, getCartLineId, getItemCondition, getItemImage, getItemPrice } from '../services/productVariants';
+import { getAvailableQuantity, isSoldOut } from '../services/cartValidation';
+import { getFreeShippingRemaining } from '../services/pricing';
+import useCartValidation from '../hooks/useCartValidation';
+import useCartTotals from '../hooks/useCartTotals';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
+import SavedForLater from '../components/cart/SavedForLater';
+import CartIssues from '../components/cart/CartIssues';
+import CouponForm from '../components/cart/CouponForm';
+import TotalsBreakdown from '../components/cart/TotalsBreakdown';
 
 const CartPage: React.FC = () => {
   const { 
@@ -13,15 +22,19 @@ const CartPage: React.FC = () => {
     updateQuantity, 
     removeItem, 
     clearCart,
-    getTotalPrice,
-    getTotalItems
+    getTotalItems,
+    getSoldOutItems,
+    coupon
   } = useCartStore();
+  const { items: savedItems, moveFromCart } = useWishlistStore();
+  const pricing = useSettingsStore(state => state.pricing);
+  const totals = useCartTotals();
 
-  const totalPrice = getTotalPrice();
   const totalItems = getTotalItems();
-  const shipping = totalPrice > 50 ? 0 : 9.99;
-  const tax = totalPrice * 0.08;
-  const finalTotal = totalPrice + shipping + tax;
+  const soldOutItems = getSoldOutItems();
+  const freeShippingRemaining = getFreeShippingRemaining(totals, pricing);
+
+  useCartValidation();
 
   if (items.length === 0) {
     return (
@@ -43,6 +56,11 @@ const CartPage: React.FC = () => {
               </Button>
             </Link>
           </Card>
+          {savedItems.length > 0 && (
+            <Card className="p-6 mt-6 text-left">
+              <SavedForLater />
+            </Card>
+          )}
         </div>
       </div>
     );
@@ -64,9 +82,10 @@ const CartPage: React.FC = () => {
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
+            <CartIssues />
             {items.map((item, index) => (
               <motion.div
-                key={item.product.id}
+                key={getCartLineId(item)}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
@@ -75,7 +94,7 @@ const CartPage: React.FC = () => {
                   <div className="flex items-center space-x-6">
                     <div className="flex-shrink-0">
                       <img
-                        src={item.product.images[0]}
+                        src={getItemImage(item)}
                         alt={item.product.name}
                         className="w-24 h-24 object-cover rounded-lg"
                       />
@@ -83,24 +102,37 @@ const CartPage: React.FC = () => {
                     
                     <div className="flex-1 min-w-0">
                       <Link 
-                        to={`/product/${item.product.id}`}
+                        to={`/product/${item.product.id}${item.variant ? `?variant=${item.variant.id}` : ''}`}
                         className="text-lg font-semibold text-gray-900 hover:text-primary-600 transition-colors"
                       >
                         {item.product.name}
                       </Link>
                       <p className="text-sm text-gray-500 mt-1">
-                        {item.product.brand} • {item.product.condition}
+                        {item.product.brand} • {formatCondition(getItemCondition(item))}
+                        {item.variant && ` • ${formatVariantLabel(item.variant, item.product.options)}`}
                       </p>
                       <p className="text-lg font-bold text-gray-900 mt-2">
-                        {formatPrice(item.product.price)}
+                        {formatPrice(getItemPrice(item))}
                       </p>
+                      {isSoldOut(item) ? (
+                        <p className="text-sm font-medium text-danger-600">Sold out</p>
+                      ) : item.quantity >= getAvailableQuantity(item) && (
+                        <p className="text-sm text-warning-600">Only {getAvailableQuantity(item)} available</p>
+                      )}
+                      <button
+                        onClick={() => moveFromCart(getCartLineId(item))}
+                        className="flex items-center text-sm text-gray-500 hover:text-primary-600 mt-2 transition-colors"
+                      >
+                        <Heart className="w-4 h-4 mr-1" />
+                        Save for later
+                      </button>
                     </div>
 
                     <div className="flex items-center space-x-4">
                       {/* Quantity Controls */}
                       <div className="flex items-center border border-gray-300 rounded-lg">
                         <button
-                          onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                          onClick={() => updateQuantity(getCartLineId(item), item.quantity - 1)}
                           className="p-2 hover:bg-gray-100 transition-colors"
                         >
                           <Minus className="w-4 h-4" />
@@ -109,8 +141,10 @@ const CartPage: React.FC = () => {
                           {item.quantity}
                         </span>
                         <button
-                          onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                          className="p-2 hover:bg-gray-100 transition-colors"
+                          onClick={() => updateQuantity(getCartLineId(item), item.quantity + 1)}
+                          disabled={item.quantity >= getAvailableQuantity(item)}
+                          aria-label="Increase quantity"
+                          className="p-2 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
                         >
                           <Plus className="w-4 h-4" />
                         </button>
@@ -118,7 +152,7 @@ const CartPage: React.FC = () => {
 
                       {/* Remove Button */}
                       <button
-                        onClick={() => removeItem(item.product.id)}
+                        onClick={() => removeItem(getCartLineId(item))}
                         className="p-2 text-danger-500 hover:bg-danger-50 rounded-lg transition-colors"
                       >
                         <X className="w-5 h-5" />
@@ -139,6 +173,12 @@ const CartPage: React.FC = () => {
                 Clear Cart
               </Button>
             </div>
+
+            {savedItems.length > 0 && (
+              <Card className="p-6">
+                <SavedForLater />
+              </Card>
+            )}
           </div>
 
           {/* Order Summary */}
@@ -148,28 +188,9 @@ const CartPage: React.FC = () => {
                 Order Summary
               </h2>
 
-              <div className="space-y-4 mb-6">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Subtotal</span>
-                  <span className="font-medium">{formatPrice(totalPrice)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Shipping</span>
-                  <span className="font-medium">
-                    {shipping === 0 ? 'Free' : formatPrice(shipping)}
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Tax</span>
-                  <span className="font-medium">{formatPrice(tax)}</span>
-                </div>
-                <div className="border-t pt-4">
-                  <div className="flex justify-between text-lg font-bold">
-                    <span>Total</span>
-                    <span>{formatPrice(finalTotal)}</span>
-                  </div>
-                </div>
-              </div>
+              <CouponForm className="mb-6" />
+
+              <TotalsBreakdown totals={totals} couponCode={coupon?.code} taxEstimated className="mb-6" />
 
               {/* Benefits */}
               <div className="space-y-3 mb-6 p-4 bg-gray-50 rounded-lg">
@@ -180,17 +201,30 @@ const CartPage: React.FC = () => {
                 <div className="flex items-center space-x-2 text-sm text-gray-600">
                   <Truck className="w-4 h-4 text-success-500" />
                   <span>
-                    {shipping === 0 ? 'Free shipping' : 'Free shipping on orders over $50'}
+                    {freeShippingRemaining === 0
+                      ? 'Free shipping'
+                      : `Add ${formatPrice(freeShippingRemaining)} more for free shipping`}
                   </span>
                 </div>
               </div>
 
-              <Link to="/checkout">
-                <Button size="lg" className="w-full mb-4">
-                  Proceed to Checkout
-                  <ArrowRight className="w-5 h-5 ml-2" />
-                </Button>
-              </Link>
+              {soldOutItems.length > 0 ? (
+                <div className="mb-4 space-y-2">
+                  <Button size="lg" className="w-full" disabled>
+                    Proceed to Checkout
+                  </Button>
+                  <p className="text-sm text-danger-600 text-center">
+                    Remove sold-out items to check out
+                  </p>
+                </div>
+              ) : (
+                <Link to="/checkout">
+                  <Button size="lg" className="w-full mb-4">
+                    Proceed to Checkout
+                    <ArrowRight className="w-5 h-5 ml-2" />
+                  </Button>
+                </Link>
+              )}
 
               <Link to="/products">
                 <Button variant="outline" size="lg" className="w-full">
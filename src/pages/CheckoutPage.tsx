@@ -1,6 +1,5 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { motion } from 'framer-motion';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { 
   CreditCard, 
   Lock, 
@@ -9,117 +8,462 @@ import {
   Mail, 
   Phone,
   Shield,
-  CheckCircle
+  CheckCircle,
+  Truck,
+  ClipboardCheck,
+  ArrowLeft,
+  AlertCircle
 } from 'lucide-react';
-import { useCartStore, useAuthStore } from '../store';
+import { useCartStore, useAuthStore, useSettingsStore, useCheckoutStore, Order } from '../store';
 import orderService from '../services/orderService';
+import paymentService from '../services/paymentService';
+import { AuthenticatePayment, PaymentChallenge, PaymentMethod } from '../services/paymentProviders';
+import { formatVariantLabel, getCartLineId, getItemImage, getItemPrice } from '../services/productVariants';
+import { getCouponProblem } from '../services/couponRules';
+import { getCartShippingQuotes } from '../services/pricing';
+import { formatDeliveryEstimate } from '../services/shippingRules';
+import {
+  CHECKOUT_STEPS,
+  CheckoutStepId,
+  PAYMENT_FIELDS,
+  PaymentDetails,
+  getFieldStep,
+  getFirstIncompleteStep,
+  getStepIndex,
+  isCheckoutStep,
+  validateStep
+} from '../services/checkoutSteps';
 import { formatPrice } from '../utils/format';
+import useCartValidation from '../hooks/useCartValidation';
+import useCartTotals from '../hooks/useCartTotals';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Card from '../components/ui/Card';
+import Form from '../components/ui/Form';
+import CartIssues from '../components/cart/CartIssues';
+import CouponForm from '../components/cart/CouponForm';
+import TotalsBreakdown from '../components/cart/TotalsBreakdown';
+import ShippingMethodPicker from '../components/cart/ShippingMethodPicker';
+import PaymentChallengeModal from '../components/checkout/PaymentChallengeModal';
+import { ApiError, FieldErrors } from '../config/api';
+
+// Order validation errors are keyed by payload path (`shippingAddress.city`),
+// the form inputs by field name (`city`)
+const toFormFieldErrors = (fieldErrors: FieldErrors): FieldErrors =>
+  Object.fromEntries(
+    Object.entries(fieldErrors).map(([path, message]) => [path.replace(/^shippingAddress\./, ''), message])
+  );
+
+const readCardFields = (form: HTMLFormElement): PaymentDetails => {
+  const data = new FormData(form);
+  const read = (name: keyof PaymentDetails) => String(data.get(name) ?? '');
+  return { cardNumber: read('cardNumber'), expiryDate: read('expiryDate'), cvv: read('cvv'), cardName: read('cardName') };
+};
+
+const stepIcons: Record<CheckoutStepId, React.ElementType> = {
+  contact: User,
+  shipping: MapPin,
+  delivery: Truck,
+  payment: CreditCard,
+  review: ClipboardCheck,
+};
 
 const CheckoutPage: React.FC = () => {
   const navigate = useNavigate();
-  const { items, getTotalPrice, clearCart } = useCartStore();
-  const { user, isAuthenticated } = useAuthStore();
+  const { step: stepParam } = useParams<{ step?: string }>();
+  const { items, clearCart, revalidate, getSoldOutItems, coupon } = useCartStore();
+  const { user } = useAuthStore();
+  const pricing = useSettingsStore(state => state.pricing);
+  const { details, updateDetails, getOrderAttemptKey, resetCheckout } = useCheckoutStore();
   
   const [loading, setLoading] = useState(false);
-  const [formData, setFormData] = useState({
-    // Shipping Information
-    firstName: user?.name?.split(' ')[0] || '',
-    lastName: user?.name?.split(' ')[1] || '',
-    email: user?.email || '',
-    phone: '',
-    address: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    country: 'United States',
-    
-    // Payment Information
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    cardName: '',
-    
-    // Options
-    saveInfo: false,
-    sameAsShipping: true,
-  });
-
-  const totalPrice = getTotalPrice();
-  const shipping = totalPrice > 50 ? 0 : 9.99;
-  const tax = totalPrice * 0.08;
-  const finalTotal = totalPrice + shipping + tax;
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // The card as tokenized by the payment provider; the raw number is never kept
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
+  // Why placing the order or paying for it failed; the cart is kept
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<(PaymentChallenge & { resolve: (passed: boolean) => void }) | null>(null);
+  // An order created by an attempt whose payment failed, with the payload it
+  // was placed from. Paying again for exactly the same order reuses it rather
+  // than placing a second one.
+  const [unpaidOrder, setUnpaidOrder] = useState<{ order: Order; payload: string } | null>(null);
+  // Set synchronously, so a double click can't start a second submission
+  // before `loading` disables the button
+  const placingOrder = useRef(false);
+
+  const step: CheckoutStepId = isCheckoutStep(stepParam) ? stepParam : 'contact';
+  const stepIndex = getStepIndex(step);
+
+  const address = { country: details.country, state: details.state, zipCode: details.zipCode };
+  const shippingQuotes = getCartShippingQuotes(items, coupon, pricing, { address });
+  const totals = useCartTotals({ address, shippingMethod: details.shippingMethod });
+  const shippingQuote = shippingQuotes.find(quote => quote.method === totals.shippingMethod);
+  // Regional tax rules need the state and ZIP code
+  const taxEstimated = !details.state.trim() || !details.zipCode.trim();
+  const soldOutItems = getSoldOutItems();
+
+  // A step can't be opened before the ones ahead of it are done, and plain
+  // /checkout resumes at the first step still needing input
+  const redirectStep = isCheckoutStep(stepParam)
+    ? getFirstIncompleteStep(details, !!paymentMethod, step)
+    : getFirstIncompleteStep(details, !!paymentMethod) ?? 'review';
+
+  useCartValidation();
+
+  useEffect(() => {
+    if (redirectStep) navigate(`/checkout/${redirectStep}`, { replace: true });
+  }, [redirectStep, navigate]);
+
+  // Signed-in customers start from their account's name and email
+  useEffect(() => {
+    if (!user || details.firstName || details.email) return;
+    const [firstName = '', ...rest] = user.name?.split(' ') ?? [];
+    updateDetails({ firstName, lastName: rest.join(' '), email: user.email });
+  }, [user, details.firstName, details.email, updateDetails]);
+
+  const clearFieldError = (name: string) => setFieldErrors(({ [name]: _, ...rest }) => rest);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value, type } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
-    }));
+    const { name, value } = e.target;
+    updateDetails({ [name]: value });
+    clearFieldError(name);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Card inputs are uncontrolled; only their errors are tracked
+  const handleCardInput = (e: React.ChangeEvent<HTMLInputElement>) => clearFieldError(e.target.name);
+
+  // Shows the issuer's challenge and waits for the customer's answer
+  const authenticate: AuthenticatePayment = paymentChallenge =>
+    new Promise(resolve => setChallenge({ ...paymentChallenge, resolve }));
+
+  const completeChallenge = (passed: boolean) => {
+    challenge?.resolve(passed);
+    setChallenge(null);
+  };
+
+  const savePaymentMethod = async (form: HTMLFormElement) => {
+    const card = readCardFields(form);
+    // Keeping the card already given
+    if (paymentMethod && PAYMENT_FIELDS.every(field => !card[field].trim())) {
+      navigate('/checkout/review');
+      return;
+    }
+
+    const errors = validateStep('payment', { ...details, ...card });
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     setLoading(true);
+    const response = await paymentService.createPaymentMethod(card);
+    setLoading(false);
+
+    if (response.success && response.data?.paymentMethod) {
+      setPaymentMethod(response.data.paymentMethod);
+      setCheckoutError(null);
+      navigate('/checkout/review');
+    } else if (response.error?.hasFieldErrors) {
+      setFieldErrors(response.error.fieldErrors);
+    } else {
+      setCheckoutError(response.message || 'We couldn\'t save this card');
+    }
+  };
+
+  const placeOrder = async () => {
+    if (!paymentMethod || placingOrder.current) return;
+    placingOrder.current = true;
+    setLoading(true);
+    setCheckoutError(null);
 
     try {
+      // Check prices and stock once more; any change is shown in the summary
+      // for the customer to review before they place the order
+      const changes = await revalidate();
+      if (changes.length > 0 || useCartStore.getState().getSoldOutItems().length > 0) return;
+
       // Create order data
       const orderData = {
         items: orderService.convertCartItemsToOrderItems(items),
         shippingAddress: {
-          firstName: formData.firstName,
-          lastName: formData.lastName,
-          email: formData.email,
-          phone: formData.phone,
-          address: formData.address,
-          city: formData.city,
-          state: formData.state,
-          zipCode: formData.zipCode,
-          country: formData.country
+          firstName: details.firstName,
+          lastName: details.lastName,
+          email: details.email,
+          phone: details.phone,
+          address: details.address,
+          city: details.city,
+          state: details.state,
+          zipCode: details.zipCode,
+          country: details.country
         },
+        // The method actually priced, in case the chosen one was withdrawn
+        shippingMethod: totals.shippingMethod,
+        deliveryEstimate: shippingQuote?.estimate,
+        ...(totals.shippingMethod === 'pickup' && { pickupAddress: pricing.pickupAddress }),
         paymentMethod: 'card',
-        total: finalTotal
+        // Only a code that currently applies is redeemed
+        ...(coupon && !getCouponProblem(coupon, items) && { couponCode: coupon.code }),
+        total: totals.total
       };
 
-      // Create order
-      const response = await orderService.createOrder(orderData);
-      
-      if (response.success) {
-        // Clear cart and redirect to confirmation
-        clearCart();
-        navigate('/order-confirmation', { 
-          state: { 
-            orderTotal: finalTotal,
-            orderNumber: response.data?.order?.id || `TV${Date.now()}`,
-            email: formData.email
-          }
-        });
-      } else {
-        throw new Error('Failed to create order');
+      // Create order, unless an earlier attempt already did and only its
+      // payment failed
+      const payload = JSON.stringify(orderData);
+      let order = unpaidOrder?.payload === payload ? unpaidOrder.order : null;
+      if (!order) {
+        const idempotencyKey = getOrderAttemptKey(payload);
+        const response = await orderService.createOrder(orderData, { idempotencyKey });
+        if (response.error?.hasFieldErrors) {
+          const errors = toFormFieldErrors(response.error.fieldErrors);
+          setFieldErrors(errors);
+          // Take the customer back to the earliest step with a problem
+          const firstStep = CHECKOUT_STEPS.find(entry =>
+            Object.keys(errors).some(field => getFieldStep(field) === entry.id)
+          );
+          if (firstStep) navigate(`/checkout/${firstStep.id}`);
+          return;
+        }
+        // Only an order id from the server counts as a placed order
+        if (!response.success || !response.data?.order?.id) {
+          setCheckoutError(response.message || 'We couldn\'t place your order. Please try again.');
+          return;
+        }
+        order = response.data.order;
       }
+
+      const payment = await paymentService.payForOrder(order.id, order.total, paymentMethod.id, authenticate);
+      if (!payment.success) {
+        setUnpaidOrder({ order, payload });
+        setCheckoutError(payment.message || 'Payment failed');
+        // A declined card has to be replaced before trying again
+        if (payment.error?.isPaymentFailed) {
+          setPaymentMethod(null);
+          navigate('/checkout/payment');
+        }
+        return;
+      }
+
+      // Clear cart and redirect to confirmation. The lookup token lets
+      // guests load the order there, and keeps the link working on refresh.
+      const lookupToken = payment.data?.order?.lookupToken ?? order.lookupToken;
+      clearCart();
+      resetCheckout();
+      navigate(`/order-confirmation/${order.id}${lookupToken ? `?token=${encodeURIComponent(lookupToken)}` : ''}`);
     } catch (error) {
       console.error('Checkout failed:', error);
-      // For demo purposes, still proceed to confirmation
-      clearCart();
-      navigate('/order-confirmation', { 
-        state: { 
-          orderTotal: finalTotal,
-          orderNumber: `TV${Date.now()}`,
-          email: formData.email
-        }
-      });
+      setCheckoutError(ApiError.from(error, 'We couldn\'t place your order. Please try again.').message);
     } finally {
+      placingOrder.current = false;
       setLoading(false);
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (step === 'payment') {
+      await savePaymentMethod(e.currentTarget);
+      return;
+    }
+
+    const errors = validateStep(step, details);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    if (step === 'review') {
+      await placeOrder();
+    } else {
+      navigate(`/checkout/${CHECKOUT_STEPS[stepIndex + 1].id}`);
+    }
+  };
+
   if (items.length === 0) {
     navigate('/cart');
     return null;
   }
 
+  const renderStep = () => {
+    switch (step) {
+      case 'contact':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="First Name"
+              name="firstName"
+              value={details.firstName}
+              onChange={handleInputChange}
+              autoComplete="given-name"
+            />
+            <Input
+              label="Last Name"
+              name="lastName"
+              value={details.lastName}
+              onChange={handleInputChange}
+              autoComplete="family-name"
+            />
+            <Input
+              label="Email"
+              name="email"
+              type="email"
+              value={details.email}
+              onChange={handleInputChange}
+              icon={<Mail className="w-4 h-4" />}
+              autoComplete="email"
+            />
+            <Input
+              label="Phone"
+              name="phone"
+              type="tel"
+              value={details.phone}
+              onChange={handleInputChange}
+              icon={<Phone className="w-4 h-4" />}
+              autoComplete="tel"
+            />
+          </div>
+        );
+
+      case 'shipping':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <Input
+                label="Address"
+                name="address"
+                value={details.address}
+                onChange={handleInputChange}
+                autoComplete="street-address"
+              />
+            </div>
+            <Input
+              label="City"
+              name="city"
+              value={details.city}
+              onChange={handleInputChange}
+              autoComplete="address-level2"
+            />
+            <Input
+              label="State"
+              name="state"
+              value={details.state}
+              onChange={handleInputChange}
+              autoComplete="address-level1"
+            />
+            <Input
+              label="ZIP Code"
+              name="zipCode"
+              value={details.zipCode}
+              onChange={handleInputChange}
+              autoComplete="postal-code"
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Country
+              </label>
+              <select
+                name="country"
+                value={details.country}
+                onChange={handleInputChange}
+                className="block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+              >
+                <option value="United States">United States</option>
+                <option value="Canada">Canada</option>
+                <option value="United Kingdom">United Kingdom</option>
+              </select>
+            </div>
+          </div>
+        );
+
+      case 'delivery':
+        return (
+          <ShippingMethodPicker
+            quotes={shippingQuotes}
+            selected={totals.shippingMethod}
+            onSelect={shippingMethod => updateDetails({ shippingMethod })}
+            pickupAddress={pricing.pickupAddress}
+          />
+        );
+
+      case 'payment':
+        return (
+          <>
+            {paymentMethod && (
+              <p className="mb-4 p-4 bg-gray-50 rounded-lg text-sm text-gray-600">
+                Paying with {paymentMethod.brand} ending in {paymentMethod.last4}.
+                Enter a different card below to replace it.
+              </p>
+            )}
+            <div className="space-y-4">
+              <Input
+                label="Card Number"
+                name="cardNumber"
+                onChange={handleCardInput}
+                placeholder="1234 5678 9012 3456"
+                icon={<CreditCard className="w-4 h-4" />}
+                inputMode="numeric"
+                autoComplete="cc-number"
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Expiry Date"
+                  name="expiryDate"
+                  onChange={handleCardInput}
+                  placeholder="MM/YY"
+                  autoComplete="cc-exp"
+                />
+                <Input
+                  label="CVV"
+                  name="cvv"
+                  onChange={handleCardInput}
+                  placeholder="123"
+                  inputMode="numeric"
+                  autoComplete="cc-csc"
+                />
+              </div>
+              <Input
+                label="Name on Card"
+                name="cardName"
+                onChange={handleCardInput}
+                icon={<User className="w-4 h-4" />}
+                autoComplete="cc-name"
+              />
+            </div>
+
+            <div className="mt-6 p-4 bg-primary-50 rounded-lg border border-primary-200">
+              <div className="flex items-center space-x-2 text-sm text-primary-700">
+                <Shield className="w-4 h-4" />
+                <span>Your payment information is encrypted and secure</span>
+              </div>
+            </div>
+          </>
+        );
+
+      case 'review':
+        return (
+          <div className="divide-y divide-gray-100">
+            <ReviewSection title="Contact" editStep="contact">
+              <p className="font-medium text-gray-900">{details.firstName} {details.lastName}</p>
+              <p>{details.email}</p>
+              <p>{details.phone}</p>
+            </ReviewSection>
+            <ReviewSection title="Shipping Address" editStep="shipping">
+              <p>{details.address}</p>
+              <p>{details.city}, {details.state} {details.zipCode}</p>
+              <p>{details.country}</p>
+            </ReviewSection>
+            <ReviewSection title="Delivery" editStep="delivery">
+              <p className="font-medium text-gray-900">{shippingQuote?.label}</p>
+              {shippingQuote && <p>{formatDeliveryEstimate(shippingQuote)}</p>}
+              {totals.shippingMethod === 'pickup' && pricing.pickupAddress && <p>{pricing.pickupAddress}</p>}
+            </ReviewSection>
+            <ReviewSection title="Payment" editStep="payment">
+              <p className="font-medium text-gray-900">{paymentMethod?.brand} ending in {paymentMethod?.last4}</p>
+              <p>Expires {String(paymentMethod?.expMonth).padStart(2, '0')}/{String(paymentMethod?.expYear).slice(-2)}</p>
+            </ReviewSection>
+          </div>
+        );
+    }
+  };
+
+  const currentStep = CHECKOUT_STEPS[stepIndex];
+  const StepIcon = stepIcons[step];
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -134,154 +478,92 @@ const CheckoutPage: React.FC = () => {
           </div>
         </div>
 
-        <form onSubmit={handleSubmit}>
+        {/* Progress */}
+        <ol className="flex items-center mb-8 overflow-x-auto">
+          {CHECKOUT_STEPS.map((entry, index) => {
+            const done = index < stepIndex;
+            const active = index === stepIndex;
+            const label = (
+              <span className={`flex items-center space-x-2 whitespace-nowrap text-sm font-medium ${
+                active ? 'text-primary-600' : done ? 'text-gray-900' : 'text-gray-400'
+              }`}>
+                <span className={`flex items-center justify-center w-7 h-7 rounded-full border-2 ${
+                  active ? 'border-primary-600' : done ? 'border-success-500 bg-success-500 text-white' : 'border-gray-300'
+                }`}>
+                  {done ? <CheckCircle className="w-4 h-4" /> : index + 1}
+                </span>
+                <span>{entry.label}</span>
+              </span>
+            );
+            return (
+              <li key={entry.id} className="flex items-center" aria-current={active ? 'step' : undefined}>
+                {done ? <Link to={`/checkout/${entry.id}`}>{label}</Link> : label}
+                {index < CHECKOUT_STEPS.length - 1 && <span className="w-8 md:w-16 h-px bg-gray-300 mx-3" />}
+              </li>
+            );
+          })}
+        </ol>
+
+        <Form onSubmit={handleSubmit} errors={fieldErrors} noValidate>
           <div className="grid lg:grid-cols-3 gap-8">
-            {/* Checkout Form */}
-            <div className="lg:col-span-2 space-y-8">
-              {/* Shipping Information */}
+            {/* Current Step */}
+            <div className="lg:col-span-2">
               <Card className="p-6">
                 <div className="flex items-center space-x-2 mb-6">
-                  <MapPin className="w-5 h-5 text-primary-600" />
+                  <StepIcon className="w-5 h-5 text-primary-600" />
                   <h2 className="text-lg font-semibold text-gray-900">
-                    Shipping Information
+                    {currentStep.label}
                   </h2>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Input
-                    label="First Name"
-                    name="firstName"
-                    value={formData.firstName}
-                    onChange={handleInputChange}
-                    required
-                  />
-                  <Input
-                    label="Last Name"
-                    name="lastName"
-                    value={formData.lastName}
-                    onChange={handleInputChange}
-                    required
-                  />
-                  <Input
-                    label="Email"
-                    name="email"
-                    type="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    icon={<Mail className="w-4 h-4" />}
-                    required
-                  />
-                  <Input
-                    label="Phone"
-                    name="phone"
-                    type="tel"
-                    value={formData.phone}
-                    onChange={handleInputChange}
-                    icon={<Phone className="w-4 h-4" />}
-                    required
-                  />
-                  <div className="md:col-span-2">
-                    <Input
-                      label="Address"
-                      name="address"
-                      value={formData.address}
-                      onChange={handleInputChange}
-                      required
-                    />
+                {checkoutError && (step === 'payment' || step === 'review') && (
+                  <div className="flex items-start space-x-2 mb-6 p-4 bg-danger-50 border border-danger-200 rounded-lg text-sm text-danger-700" role="alert">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>{checkoutError}</span>
                   </div>
-                  <Input
-                    label="City"
-                    name="city"
-                    value={formData.city}
-                    onChange={handleInputChange}
-                    required
-                  />
-                  <Input
-                    label="State"
-                    name="state"
-                    value={formData.state}
-                    onChange={handleInputChange}
-                    required
-                  />
-                  <Input
-                    label="ZIP Code"
-                    name="zipCode"
-                    value={formData.zipCode}
-                    onChange={handleInputChange}
-                    required
-                  />
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Country
-                    </label>
-                    <select
-                      name="country"
-                      value={formData.country}
-                      onChange={handleInputChange}
-                      className="block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
-                      required
-                    >
-                      <option value="United States">United States</option>
-                      <option value="Canada">Canada</option>
-                      <option value="United Kingdom">United Kingdom</option>
-                    </select>
-                  </div>
-                </div>
-              </Card>
+                )}
 
-              {/* Payment Information */}
-              <Card className="p-6">
-                <div className="flex items-center space-x-2 mb-6">
-                  <CreditCard className="w-5 h-5 text-primary-600" />
-                  <h2 className="text-lg font-semibold text-gray-900">
-                    Payment Information
-                  </h2>
-                </div>
+                {renderStep()}
 
-                <div className="space-y-4">
-                  <Input
-                    label="Card Number"
-                    name="cardNumber"
-                    value={formData.cardNumber}
-                    onChange={handleInputChange}
-                    placeholder="1234 5678 9012 3456"
-                    icon={<CreditCard className="w-4 h-4" />}
-                    required
-                  />
-                  <div className="grid grid-cols-2 gap-4">
-                    <Input
-                      label="Expiry Date"
-                      name="expiryDate"
-                      value={formData.expiryDate}
-                      onChange={handleInputChange}
-                      placeholder="MM/YY"
-                      required
-                    />
-                    <Input
-                      label="CVV"
-                      name="cvv"
-                      value={formData.cvv}
-                      onChange={handleInputChange}
-                      placeholder="123"
-                      required
-                    />
-                  </div>
-                  <Input
-                    label="Name on Card"
-                    name="cardName"
-                    value={formData.cardName}
-                    onChange={handleInputChange}
-                    icon={<User className="w-4 h-4" />}
-                    required
-                  />
+                <div className="flex items-center justify-between mt-8">
+                  {stepIndex > 0 ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => navigate(`/checkout/${CHECKOUT_STEPS[stepIndex - 1].id}`)}
+                    >
+                      <ArrowLeft className="w-4 h-4 mr-2" />
+                      Back
+                    </Button>
+                  ) : (
+                    <Link to="/cart" className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                      Back to cart
+                    </Link>
+                  )}
+                  <Button
+                    type="submit"
+                    loading={loading}
+                    disabled={step === 'review' && soldOutItems.length > 0}
+                    size="lg"
+                  >
+                    {step !== 'review'
+                      ? `Continue to ${CHECKOUT_STEPS[stepIndex + 1].label}`
+                      : loading ? 'Processing...' : `Complete Order • ${formatPrice(totals.total)}`}
+                  </Button>
                 </div>
 
-                <div className="mt-6 p-4 bg-primary-50 rounded-lg border border-primary-200">
-                  <div className="flex items-center space-x-2 text-sm text-primary-700">
-                    <Shield className="w-4 h-4" />
-                    <span>Your payment information is encrypted and secure</span>
-                  </div>
-                </div>
+                {step === 'review' && soldOutItems.length > 0 && (
+                  <p className="text-sm text-danger-600 text-right mt-3">
+                    {soldOutItems.map(item => item.product.name).join(', ')} sold out.
+                    Remove {soldOutItems.length === 1 ? 'it' : 'them'} from your cart to continue.
+                  </p>
+                )}
+
+                {step === 'review' && (
+                  <p className="text-xs text-gray-500 text-right mt-4">
+                    By completing your order, you agree to our Terms of Service and Privacy Policy.
+                  </p>
+                )}
               </Card>
             </div>
 
@@ -292,12 +574,14 @@ const CheckoutPage: React.FC = () => {
                   Order Summary
                 </h2>
 
+                <CartIssues className="mb-6" />
+
                 {/* Items */}
                 <div className="space-y-4 mb-6">
                   {items.map((item) => (
-                    <div key={item.product.id} className="flex items-center space-x-3">
+                    <div key={getCartLineId(item)} className="flex items-center space-x-3">
                       <img
-                        src={item.product.images[0]}
+                        src={getItemImage(item)}
                         alt={item.product.name}
                         className="w-12 h-12 object-cover rounded-lg"
                       />
@@ -306,55 +590,48 @@ const CheckoutPage: React.FC = () => {
                           {item.product.name}
                         </p>
                         <p className="text-sm text-gray-500">
+                          {item.variant && `${formatVariantLabel(item.variant, item.product.options)} · `}
                           Qty: {item.quantity}
                         </p>
                       </div>
                       <p className="text-sm font-medium text-gray-900">
-                        {formatPrice(item.product.price * item.quantity)}
+                        {formatPrice(getItemPrice(item) * item.quantity)}
                       </p>
                     </div>
                   ))}
                 </div>
 
-                {/* Totals */}
-                <div className="space-y-3 mb-6 border-t pt-4">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Subtotal</span>
-                    <span>{formatPrice(totalPrice)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Shipping</span>
-                    <span>{shipping === 0 ? 'Free' : formatPrice(shipping)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Tax</span>
-                    <span>{formatPrice(tax)}</span>
-                  </div>
-                  <div className="flex justify-between text-lg font-bold border-t pt-3">
-                    <span>Total</span>
-                    <span>{formatPrice(finalTotal)}</span>
-                  </div>
-                </div>
+                <CouponForm className="mb-6" />
 
-                <Button
-                  type="submit"
-                  loading={loading}
-                  size="lg"
-                  className="w-full"
-                >
-                  {loading ? 'Processing...' : `Complete Order • ${formatPrice(finalTotal)}`}
-                </Button>
-
-                <p className="text-xs text-gray-500 text-center mt-4">
-                  By completing your order, you agree to our Terms of Service and Privacy Policy.
-                </p>
+                {/* Totals */}
+                <TotalsBreakdown totals={totals} couponCode={coupon?.code} taxEstimated={taxEstimated} className="border-t pt-4" />
               </Card>
             </div>
           </div>
-        </form>
+        </Form>
+
+        <PaymentChallengeModal challenge={challenge} onComplete={completeChallenge} />
       </div>
     </div>
   );
 };
 
-export default CheckoutPage;
\ No newline at end of file
+interface ReviewSectionProps {
+  title: string;
+  editStep: CheckoutStepId;
+  children: React.ReactNode;
+}
+
+const ReviewSection: React.FC<ReviewSectionProps> = ({ title, editStep, children }) => (
+  <div className="flex items-start justify-between py-4 first:pt-0 last:pb-0">
+    <div className="text-sm text-gray-600 space-y-0.5">
+      <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{title}</h3>
+      {children}
+    </div>
+    <Link to={`/checkout/${editStep}`} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+      Edit
+    </Link>
+  </div>
+);
+
+export default CheckoutPage;
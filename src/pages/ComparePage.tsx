@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GitCompare, ShoppingCart, X, Star, ArrowRight } from 'lucide-react';
+import { useCartStore, useCompareStore, useProductStore, Product, MAX_COMPARE_ITEMS } from '../store';
+import { formatPrice, formatCondition, getConditionColor } from '../utils/format';
+import { alignSpecifications, getSavings, valuesDiffer } from '../services/productCompare';
+import { hasVariants } from '../services/productVariants';
+import useAbortSignal from '../hooks/useAbortSignal';
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+
+interface SummaryRow {
+  label: string;
+  // Compared to decide whether the row differs
+  compareValue: (product: Product) => string | undefined;
+  render: (product: Product) => React.ReactNode;
+}
+
+const ComparePage: React.FC = () => {
+  const { items, removeItem, clearCompare, refreshItems } = useCompareStore();
+  const { fetchProductById } = useProductStore();
+  const { addItem } = useCartStore();
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const nextSignal = useAbortSignal();
+
+  // The tray keeps the product as it was when added; prices and stock may
+  // have moved since, so load current copies once when the page opens
+  useEffect(() => {
+    const ids = useCompareStore.getState().items.map(product => product.id);
+    if (ids.length === 0) return;
+    const signal = nextSignal();
+    Promise.all(ids.map(id => fetchProductById(id, { signal }))).then(products => {
+      if (signal.aborted) return;
+      refreshItems(products.filter((product): product is Product => product !== null));
+    });
+  }, [fetchProductById, refreshItems, nextSignal]);
+
+  const lowestPrice = Math.min(...items.map(product => product.price));
+
+  const summaryRows: SummaryRow[] = [
+    {
+      label: 'Price',
+      compareValue: (product) => String(product.price),
+      render: (product) => (
+        <span className={`text-lg font-bold ${
+          items.length > 1 && product.price === lowestPrice ? 'text-success-600' : 'text-gray-900'
+        }`}>
+          {formatPrice(product.price)}
+        </span>
+      ),
+    },
+    {
+      label: 'Savings',
+      compareValue: (product) => {
+        const savings = getSavings(product);
+        return savings ? String(savings.amount) : undefined;
+      },
+      render: (product) => {
+        const savings = getSavings(product);
+        return savings ? (
+          <div>
+            <span className="text-success-600 font-medium">
+              {formatPrice(savings.amount)} ({savings.percent}% off)
+            </span>
+            <p className="text-xs text-gray-500 line-through">{formatPrice(product.originalPrice!)}</p>
+          </div>
+        ) : (
+          <span className="text-gray-400">—</span>
+        );
+      },
+    },
+    {
+      label: 'Condition',
+      compareValue: (product) => product.condition,
+      render: (product) => (
+        <Badge variant="info" size="sm" className={getConditionColor(product.condition)}>
+          {formatCondition(product.condition)}
+        </Badge>
+      ),
+    },
+    {
+      label: 'Brand',
+      compareValue: (product) => product.brand,
+      render: (product) => product.brand,
+    },
+    {
+      label: 'Rating',
+      compareValue: (product) => product.rating.toFixed(1),
+      render: (product) => (
+        <span className="flex items-center">
+          <Star className="w-4 h-4 text-warning-400 fill-current mr-1" />
+          {product.rating.toFixed(1)}
+          <span className="text-gray-500 ml-1">({product.reviewCount})</span>
+        </span>
+      ),
+    },
+    {
+      label: 'Availability',
+      compareValue: (product) => String(product.inStock),
+      render: (product) => product.inStock ? (
+        <span className="text-success-600">In stock</span>
+      ) : (
+        <span className="text-danger-600">Out of stock</span>
+      ),
+    },
+  ];
+
+  const specificationRows = useMemo(() => alignSpecifications(items), [items]);
+
+  const visibleSummaryRows = summaryRows
+    .map(row => ({ ...row, differs: valuesDiffer(items.map(row.compareValue)) }))
+    .filter(row => !differencesOnly || row.differs);
+  const visibleSpecificationRows = specificationRows.filter(row => !differencesOnly || row.differs);
+
+  if (items.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto text-center">
+          <Card className="p-12">
+            <GitCompare className="w-16 h-16 text-gray-300 mx-auto mb-6" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">
+              Nothing to compare yet
+            </h2>
+            <p className="text-gray-600 mb-8">
+              Add up to {MAX_COMPARE_ITEMS} products from the catalog to see their specs side by side.
+            </p>
+            <Link to="/products">
+              <Button size="lg">
+                Browse Products
+                <ArrowRight className="w-5 h-5 ml-2" />
+              </Button>
+            </Link>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const cellWidth = `${Math.floor(100 / (items.length + 1))}%`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Compare Products
+            </h1>
+            <p className="text-gray-600">
+              {items.length} of {MAX_COMPARE_ITEMS} products
+              {items.length < 2 && ' · add another product to see the differences'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={differencesOnly}
+                onChange={(e) => setDifferencesOnly(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Only show differences</span>
+            </label>
+            <Button variant="outline" size="sm" onClick={clearCompare}>
+              Clear all
+            </Button>
+          </div>
+        </div>
+
+        <Card className="overflow-x-auto">
+          <table className="w-full min-w-[640px] table-fixed text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th style={{ width: cellWidth }} className="p-4" />
+                {items.map(product => (
+                  <th key={product.id} style={{ width: cellWidth }} className="p-4 text-left align-top font-normal">
+                    <div className="relative">
+                      <button
+                        onClick={() => removeItem(product.id)}
+                        aria-label={`Remove ${product.name} from comparison`}
+                        className="absolute top-0 right-0 p-1 bg-white/90 rounded-full text-gray-400 hover:text-danger-500"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                      <Link to={`/product/${product.id}`}>
+                        <img
+                          src={product.images[0]}
+                          alt={product.name}
+                          className="w-full aspect-square object-cover rounded-lg mb-3"
+                        />
+                        <span className="block font-semibold text-gray-900 hover:text-primary-600 line-clamp-2">
+                          {product.name}
+                        </span>
+                      </Link>
+                      {hasVariants(product) ? (
+                        <Link to={`/product/${product.id}`} className="block mt-3">
+                          <Button size="sm" variant="outline" className="w-full">
+                            Choose Options
+                          </Button>
+                        </Link>
+                      ) : (
+                        <Button
+                          size="sm"
+                          className="w-full mt-3"
+                          onClick={() => addItem(product)}
+                          disabled={!product.inStock}
+                        >
+                          <ShoppingCart className="w-4 h-4 mr-2" />
+                          Add to Cart
+                        </Button>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleSummaryRows.map(row => (
+                <tr
+                  key={row.label}
+                  className={`border-b border-gray-100 ${row.differs ? 'bg-warning-50' : ''}`}
+                >
+                  <th scope="row" className="p-4 text-left font-medium text-gray-900">{row.label}</th>
+                  {items.map(product => (
+                    <td key={product.id} className="p-4 text-gray-700">{row.render(product)}</td>
+                  ))}
+                </tr>
+              ))}
+
+              {visibleSpecificationRows.length > 0 && (
+                <tr className="bg-gray-50">
+                  <th colSpan={items.length + 1} className="p-4 text-left font-semibold text-gray-900">
+                    Specifications
+                  </th>
+                </tr>
+              )}
+              {visibleSpecificationRows.map(row => (
+                <tr
+                  key={row.key}
+                  className={`border-b border-gray-100 ${row.differs ? 'bg-warning-50' : ''}`}
+                >
+                  <th scope="row" className="p-4 text-left font-medium text-gray-900">{row.label}</th>
+                  {row.values.map((value, index) => (
+                    <td
+                      key={items[index].id}
+                      className={`p-4 ${row.differs ? 'font-medium text-gray-900' : 'text-gray-700'}`}
+                    >
+                      {value ?? <span className="text-gray-400 font-normal">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+
+              {differencesOnly && visibleSummaryRows.length === 0 && visibleSpecificationRows.length === 0 && (
+                <tr>
+                  <td colSpan={items.length + 1} className="p-8 text-center text-gray-500">
+                    These products don't differ on any listed detail.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </Card>
+
+        {items.length > 1 && (
+          <p className="text-xs text-gray-500 mt-4">
+            Highlighted rows differ between the products.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparePage;
@@ -1,26 +1,140 @@
-import React from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   CheckCircle, 
+  Clock,
+  XCircle,
+  RotateCcw,
   Mail, 
   Package, 
   Truck, 
-  Calendar,
   ArrowRight,
   Download,
   MessageCircle
 } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
-import { formatPrice } from '../utils/format';
+import Badge from '../components/ui/Badge';
+import { formatDate, formatPrice } from '../utils/format';
+import { SHIPPING_METHOD_LABELS, formatDeliveryEstimate, getEstimatedDeliveryDate } from '../services/shippingRules';
+import { formatVariantLabel, getCartLineId, getItemImage, getItemPrice } from '../services/productVariants';
+import { getOrderTotals } from '../services/pricing';
+import orderService from '../services/orderService';
+import useAbortSignal from '../hooks/useAbortSignal';
+import { Order } from '../store';
+import TotalsBreakdown from '../components/cart/TotalsBreakdown';
+
+type PaymentStatus = NonNullable<Order['paymentStatus']>;
+
+const paymentStatusBadges: Record<PaymentStatus, { label: string; variant: 'success' | 'warning' | 'danger' | 'secondary' }> = {
+  paid: { label: 'Paid', variant: 'success' },
+  pending: { label: 'Payment Pending', variant: 'warning' },
+  failed: { label: 'Payment Failed', variant: 'danger' },
+  refunded: { label: 'Refunded', variant: 'secondary' },
+};
+
+// The page is also reached later from emails and the orders list, so the
+// heading follows the payment rather than assuming it went through
+const paymentStatusHeadings: Record<PaymentStatus, { title: string; message: string; icon: React.ElementType; iconClass: string }> = {
+  paid: {
+    title: 'Order Confirmed!',
+    message: 'Thank you for your purchase. Your order has been successfully placed.',
+    icon: CheckCircle,
+    iconClass: 'bg-success-100 text-success-600',
+  },
+  pending: {
+    title: 'Order Received',
+    message: 'We\'re waiting for your payment to go through. We\'ll email you as soon as it\'s confirmed.',
+    icon: Clock,
+    iconClass: 'bg-warning-100 text-warning-600',
+  },
+  failed: {
+    title: 'Payment Failed',
+    message: 'We couldn\'t take payment for this order, so it won\'t be shipped. Please place the order again with another card, or contact support.',
+    icon: XCircle,
+    iconClass: 'bg-danger-100 text-danger-600',
+  },
+  refunded: {
+    title: 'Order Refunded',
+    message: 'This order has been refunded. The money should be back on your card within a few business days.',
+    icon: RotateCcw,
+    iconClass: 'bg-gray-100 text-gray-600',
+  },
+};
 
 const OrderConfirmationPage: React.FC = () => {
-  const location = useLocation();
-  const { orderTotal, orderNumber, email } = location.state || {};
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  // Guests reach the page through the signed link made at checkout
+  const lookupToken = searchParams.get('token') ?? undefined;
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const nextSignal = useAbortSignal();
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      if (!id) return;
+      const signal = nextSignal();
+      setLoading(true);
+      const response = await orderService.getOrderById(id, lookupToken, { signal });
+      if (signal.aborted) return;
+
+      if (response.success && response.data?.order) {
+        setOrder(response.data.order);
+        setError(null);
+      } else {
+        setError(
+          response.error?.isUnauthorized || response.error?.isForbidden || response.error?.isNotFound
+            ? 'We couldn\'t find this order. Sign in to the account that placed it, or use the link from your confirmation email.'
+            : response.message || 'Failed to load order'
+        );
+      }
+      setLoading(false);
+    };
+
+    loadOrder();
+  }, [id, lookupToken, nextSignal]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center max-w-md">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Order Not Found</h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Link to="/orders">
+            <Button>View Your Orders</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
 
-  const estimatedDelivery = new Date();
-  estimatedDelivery.setDate(estimatedDelivery.getDate() + 5);
+  const totals = getOrderTotals(order);
+  const shippingMethod = order.shippingMethod ?? 'standard';
+  // Orders placed before the quote was stored have no estimate to show
+  const estimate = order.deliveryEstimate;
+  const estimatedDelivery = estimate && getEstimatedDeliveryDate(estimate, new Date(order.createdAt));
+  const email = order.shippingAddress.email;
+  const paymentStatus: PaymentStatus = order.paymentStatus ?? 'pending';
+  const paymentBadge = paymentStatusBadges[paymentStatus];
+  const heading = paymentStatusHeadings[paymentStatus];
+  const HeadingIcon = heading.icon;
+  const isActive = paymentStatus === 'paid' || paymentStatus === 'pending';
+  const { shippingAddress } = order;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -30,14 +144,14 @@ const OrderConfirmationPage: React.FC = () => {
           animate={{ opacity: 1, y: 0 }}
           className="text-center mb-12"
         >
-          <div className="w-20 h-20 bg-success-100 rounded-full flex items-center justify-center mx-auto mb-6">
-            <CheckCircle className="w-10 h-10 text-success-600" />
+          <div className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-6 ${heading.iconClass}`}>
+            <HeadingIcon className="w-10 h-10" />
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            Order Confirmed!
+            {heading.title}
           </h1>
           <p className="text-lg text-gray-600">
-            Thank you for your purchase. Your order has been successfully placed.
+            {heading.message}
           </p>
         </motion.div>
 
@@ -53,20 +167,28 @@ const OrderConfirmationPage: React.FC = () => {
                   <div>
                     <span className="text-sm text-gray-500">Order Number</span>
                     <p className="font-mono font-medium text-gray-900">
-                      {orderNumber || 'TV1234567890'}
+                      {order.id}
                     </p>
                   </div>
                   <div>
-                    <span className="text-sm text-gray-500">Order Total</span>
-                    <p className="text-xl font-bold text-gray-900">
-                      {formatPrice(orderTotal || 899)}
+                    <span className="text-sm text-gray-500">Placed On</span>
+                    <p className="font-medium text-gray-900">
+                      {formatDate(order.createdAt)}
                     </p>
                   </div>
+                  {email && (
+                    <div>
+                      <span className="text-sm text-gray-500">Email</span>
+                      <p className="font-medium text-gray-900">
+                        {email}
+                      </p>
+                    </div>
+                  )}
                   <div>
-                    <span className="text-sm text-gray-500">Email</span>
-                    <p className="font-medium text-gray-900">
-                      {email || 'customer@example.com'}
-                    </p>
+                    <span className="text-sm text-gray-500 block mb-1">Payment</span>
+                    <Badge variant={paymentBadge.variant}>
+                      {paymentBadge.label}
+                    </Badge>
                   </div>
                 </div>
               </div>
@@ -76,72 +198,134 @@ const OrderConfirmationPage: React.FC = () => {
                   Delivery Information
                 </h2>
                 <div className="space-y-3">
+                  {estimatedDelivery && isActive && (
+                    <div>
+                      <span className="text-sm text-gray-500">
+                        {shippingMethod === 'pickup' ? 'Ready for Pickup By' : 'Estimated Delivery'}
+                      </span>
+                      <p className="font-medium text-gray-900">
+                        {estimatedDelivery.toLocaleDateString('en-US', {
+                          weekday: 'long',
+                          year: 'numeric',
+                          month: 'long',
+                          day: 'numeric'
+                        })}
+                      </p>
+                    </div>
+                  )}
                   <div>
-                    <span className="text-sm text-gray-500">Estimated Delivery</span>
+                    <span className="text-sm text-gray-500">Shipping Method</span>
                     <p className="font-medium text-gray-900">
-                      {estimatedDelivery.toLocaleDateString('en-US', {
-                        weekday: 'long',
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric'
-                      })}
+                      {SHIPPING_METHOD_LABELS[shippingMethod]}
+                      {estimate && ` (${formatDeliveryEstimate({ method: shippingMethod, estimate })})`}
                     </p>
                   </div>
                   <div>
-                    <span className="text-sm text-gray-500">Shipping Method</span>
-                    <p className="font-medium text-gray-900">
-                      Standard Shipping (5-7 business days)
-                    </p>
+                    <span className="text-sm text-gray-500">
+                      {shippingMethod === 'pickup' ? 'Pickup Location' : 'Shipping Address'}
+                    </span>
+                    {shippingMethod === 'pickup' ? (
+                      <p className="font-medium text-gray-900">
+                        {order.pickupAddress || 'We\'ll email you the pickup address when your order is ready.'}
+                      </p>
+                    ) : (
+                      <div className="text-gray-900">
+                        <p className="font-medium">{shippingAddress.name}</p>
+                        <p>{shippingAddress.address}</p>
+                        <p>
+                          {shippingAddress.city}{shippingAddress.state && `, ${shippingAddress.state}`} {shippingAddress.zipCode}
+                        </p>
+                        <p>{shippingAddress.country}</p>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
-          </Card>
 
-          {/* What's Next */}
-          <Card className="p-8">
-            <h2 className="text-lg font-semibold text-gray-900 mb-6">
-              What happens next?
-            </h2>
-            
-            <div className="space-y-6">
-              <div className="flex items-start space-x-4">
-                <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center flex-shrink-0">
-                  <Mail className="w-4 h-4 text-primary-600" />
-                </div>
-                <div>
-                  <h3 className="font-medium text-gray-900">Order Confirmation Email</h3>
-                  <p className="text-sm text-gray-600">
-                    We've sent a confirmation email with your order details to {email || 'your email address'}.
+            {/* Items */}
+            <div className="mt-8 pt-6 border-t border-gray-200 space-y-4">
+              {order.items.map(item => (
+                <div key={getCartLineId(item)} className="flex items-center space-x-4">
+                  <img
+                    src={getItemImage(item)}
+                    alt={item.product.name}
+                    className="w-16 h-16 object-cover rounded-lg"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900">{item.product.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {item.variant && `${formatVariantLabel(item.variant, item.product.options)} · `}
+                      Qty: {item.quantity}
+                    </p>
+                  </div>
+                  <p className="font-medium text-gray-900">
+                    {formatPrice(getItemPrice(item) * item.quantity)}
                   </p>
                 </div>
+              ))}
+            </div>
+
+            {totals ? (
+              <TotalsBreakdown
+                totals={totals}
+                couponCode={order.couponCode}
+                className="mt-8 pt-6 border-t border-gray-200 md:ml-auto md:max-w-xs"
+              />
+            ) : (
+              <div className="mt-8 pt-6 border-t border-gray-200 flex justify-between text-lg font-bold md:ml-auto md:max-w-xs">
+                <span>Total</span>
+                <span>{formatPrice(order.total)}</span>
               </div>
+            )}
+          </Card>
 
-              <div className="flex items-start space-x-4">
-                <div className="w-8 h-8 bg-warning-100 rounded-full flex items-center justify-center flex-shrink-0">
-                  <Package className="w-4 h-4 text-warning-600" />
-                </div>
-                <div>
-                  <h3 className="font-medium text-gray-900">Order Processing</h3>
-                  <p className="text-sm text-gray-600">
-                    Your order is being prepared for shipment. This usually takes 1-2 business days.
-                  </p>
+          {/* What's Next */}
+          {isActive && (
+            <Card className="p-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6">
+                What happens next?
+              </h2>
+
+              <div className="space-y-6">
+                <div className="flex items-start space-x-4">
+                  <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Mail className="w-4 h-4 text-primary-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-900">Order Confirmation Email</h3>
+                    <p className="text-sm text-gray-600">
+                      We've sent a confirmation email with your order details to {email || 'your email address'}.
+                    </p>
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex items-start space-x-4">
-                <div className="w-8 h-8 bg-success-100 rounded-full flex items-center justify-center flex-shrink-0">
-                  <Truck className="w-4 h-4 text-success-600" />
+                <div className="flex items-start space-x-4">
+                  <div className="w-8 h-8 bg-warning-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Package className="w-4 h-4 text-warning-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-900">Order Processing</h3>
+                    <p className="text-sm text-gray-600">
+                      Your order is being prepared for shipment. This usually takes 1-2 business days.
+                    </p>
+                  </div>
                 </div>
-                <div>
-                  <h3 className="font-medium text-gray-900">Shipping & Delivery</h3>
-                  <p className="text-sm text-gray-600">
-                    Once shipped, you'll receive tracking information to monitor your package.
-                  </p>
+
+                <div className="flex items-start space-x-4">
+                  <div className="w-8 h-8 bg-success-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Truck className="w-4 h-4 text-success-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-900">Shipping & Delivery</h3>
+                    <p className="text-sm text-gray-600">
+                      Once shipped, you'll receive tracking information to monitor your package.
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
-          </Card>
+            </Card>
+          )}
 
           {/* Actions */}
           <div className="grid md:grid-cols-2 gap-4">
@@ -13,11 +13,14 @@ import {
 } from 'lucide-react';
 import { useAuthStore } from '../store';
 import orderService from '../services/orderService';
+import { formatVariantLabel, getItemPrice } from '../services/productVariants';
+import { getOrderTotals } from '../services/pricing';
 import { formatPrice, formatDate } from '../utils/format';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
 import Badge from '../components/ui/Badge';
 import Input from '../components/ui/Input';
+import TotalsBreakdown from '../components/cart/TotalsBreakdown';
 
 const OrdersPage: React.FC = () => {
   const { user, isAuthenticated } = useAuthStore();
@@ -270,19 +273,32 @@ const OrdersPage: React.FC = () => {
                             <h4 className="font-medium text-gray-900">
                               {item.product.name}
                             </h4>
+                            {item.variant && (
+                              <p className="text-sm text-gray-500">
+                                {formatVariantLabel(item.variant, item.product.options)}
+                              </p>
+                            )}
                             <p className="text-sm text-gray-500">
-                              Quantity: {item.quantity} • {formatPrice(item.product.price)} each
+                              Quantity: {item.quantity} • {formatPrice(getItemPrice(item))} each
                             </p>
                           </div>
                           <div className="text-right">
                             <p className="font-medium text-gray-900">
-                              {formatPrice(item.product.price * item.quantity)}
+                              {formatPrice(getItemPrice(item) * item.quantity)}
                             </p>
                           </div>
                         </div>
                       ))}
                     </div>
 
+                    {getOrderTotals(order) && (
+                      <TotalsBreakdown
+                        totals={getOrderTotals(order)!}
+                        couponCode={order.couponCode}
+                        className="mb-6 pt-4 border-t border-gray-200 sm:ml-auto sm:max-w-xs"
+                      />
+                    )}
+
                     {/* Order Actions */}
                     <div className="flex flex-col sm:flex-row gap-4 pt-4 border-t border-gray-200">
                       <div className="flex-1">
@@ -1,11 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   Star, 
   ShoppingCart, 
   Heart, 
   Share2, 
+  GitCompare,
   Shield, 
   Truck, 
   RefreshCw,
@@ -15,52 +16,61 @@ import {
   Minus,
   Plus
 } from 'lucide-react';
-import { useProductStore, useCartStore, Product } from '../store';
+import { useProductStore, useCartStore, useWishlistStore, useCompareStore, Product, ProductVariant, MAX_COMPARE_ITEMS } from '../store';
 import { formatPrice, formatCondition, getConditionColor } from '../utils/format';
+import { getDefaultVariant, hasVariants } from '../services/productVariants';
+import useAbortSignal from '../hooks/useAbortSignal';
 import Button from '../components/ui/Button';
 import Badge from '../components/ui/Badge';
 import Card from '../components/ui/Card';
 import ProductCard from '../components/product/ProductCard';
+import ProductReviews from '../components/product/ProductReviews';
+import ProductQuestions from '../components/product/ProductQuestions';
+import VariantPicker from '../components/product/VariantPicker';
 
 const ProductDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  // The chosen variant lives in the URL so it survives reloads and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
   const { products, fetchProductById } = useProductStore();
   const { addItem } = useCartStore();
+  const { isInWishlist, toggleItem } = useWishlistStore();
+  const compareStore = useCompareStore();
   
   const [product, setProduct] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
-  const [activeTab, setActiveTab] = useState<'description' | 'specifications' | 'reviews'>('description');
+  const [activeTab, setActiveTab] = useState<'description' | 'specifications' | 'reviews' | 'questions'>('description');
+  const nextSignal = useAbortSignal();
 
   useEffect(() => {
     const loadProduct = async () => {
       if (!id) return;
       
-      setLoading(true);
+      // Show the copy from the loaded product lists straight away. The lookup
+      // below is served from the query cache in that case, so it only hits
+      // the API for products we haven't seen or whose entry has gone stale.
+      const { pageProducts, products: loadedProducts } = useProductStore.getState();
+      const existingProduct = [...pageProducts, ...loadedProducts].find(p => p.id === id);
+      setProduct(existingProduct || null);
+      setLoading(!existingProduct);
+
+      const signal = nextSignal();
       try {
-        // First try to find in existing products
-        const existingProduct = products.find(p => p.id === id);
-        if (existingProduct) {
-          setProduct(existingProduct);
-          setLoading(false);
-          return;
-        }
-        
-        // If not found, fetch from API
-        const fetchedProduct = await fetchProductById(id);
-        if (fetchedProduct) {
+        const fetchedProduct = await fetchProductById(id, { signal });
+        if (fetchedProduct && !signal.aborted) {
           setProduct(fetchedProduct);
         }
       } catch (error) {
         console.error('Failed to load product:', error);
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
 
     loadProduct();
-  }, [id, products, fetchProductById]);
+  }, [id, fetchProductById, nextSignal]);
   
   if (loading) {
     return (
@@ -90,23 +100,43 @@ const ProductDetailPage: React.FC = () => {
     .filter(p => p.category === product.category && p.id !== product.id)
     .slice(0, 4);
 
-  const discountPercentage = product.originalPrice 
-    ? Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)
+  // A selected variant replaces the product's own price, condition, stock and images
+  const selectedVariant = hasVariants(product)
+    ? product.variants!.find(variant => variant.id === searchParams.get('variant')) ?? getDefaultVariant(product)
+    : undefined;
+  const price = selectedVariant?.price ?? product.price;
+  const originalPrice = selectedVariant ? selectedVariant.originalPrice : product.originalPrice;
+  const condition = selectedVariant?.condition ?? product.condition;
+  const stockCount = selectedVariant?.stockCount ?? product.stockCount;
+  const inStock = selectedVariant ? selectedVariant.stockCount > 0 : product.inStock;
+  const images = selectedVariant?.images?.length ? selectedVariant.images : product.images;
+
+  const discountPercentage = originalPrice 
+    ? Math.round(((originalPrice - price) / originalPrice) * 100)
     : 0;
 
+  const compared = compareStore.isInCompare(product.id);
+  const compareFull = !compared && compareStore.isFull();
+
   const handleAddToCart = () => {
-    addItem(product, quantity);
+    addItem(product, quantity, selectedVariant);
+  };
+
+  const handleSelectVariant = (variant: ProductVariant) => {
+    setSearchParams({ variant: variant.id }, { replace: true });
+    setSelectedImageIndex(0);
+    setQuantity(1);
   };
 
   const nextImage = () => {
     setSelectedImageIndex((prev) => 
-      prev === product.images.length - 1 ? 0 : prev + 1
+      prev === images.length - 1 ? 0 : prev + 1
     );
   };
 
   const prevImage = () => {
     setSelectedImageIndex((prev) => 
-      prev === 0 ? product.images.length - 1 : prev - 1
+      prev === 0 ? images.length - 1 : prev - 1
     );
   };
 
@@ -132,13 +162,13 @@ const ProductDetailPage: React.FC = () => {
             <Card className="overflow-hidden">
               <div className="relative aspect-square">
                 <img
-                  src={product.images[selectedImageIndex]}
+                  src={images[selectedImageIndex]}
                   alt={product.name}
                   className="w-full h-full object-cover"
                 />
                 
                 {/* Image Navigation */}
-                {product.images.length > 1 && (
+                {images.length > 1 && (
                   <>
                     <button
                       onClick={prevImage}
@@ -163,7 +193,7 @@ const ProductDetailPage: React.FC = () => {
                   {discountPercentage > 0 && (
                     <Badge variant="danger">-{discountPercentage}%</Badge>
                   )}
-                  {!product.inStock && (
+                  {!inStock && (
                     <Badge variant="danger">Out of Stock</Badge>
                   )}
                 </div>
@@ -171,9 +201,9 @@ const ProductDetailPage: React.FC = () => {
             </Card>
 
             {/* Thumbnail Images */}
-            {product.images.length > 1 && (
+            {images.length > 1 && (
               <div className="flex space-x-2 overflow-x-auto">
-                {product.images.map((image, index) => (
+                {images.map((image, index) => (
                   <button
                     key={index}
                     onClick={() => setSelectedImageIndex(index)}
@@ -202,8 +232,27 @@ const ProductDetailPage: React.FC = () => {
                   {product.brand}
                 </span>
                 <div className="flex items-center space-x-2">
-                  <button className="p-2 text-gray-400 hover:text-danger-500 transition-colors">
-                    <Heart className="w-5 h-5" />
+                  <button
+                    onClick={() => toggleItem(product)}
+                    aria-pressed={isInWishlist(product.id)}
+                    aria-label={isInWishlist(product.id) ? 'Remove from wishlist' : 'Save to wishlist'}
+                    className={`p-2 hover:text-danger-500 transition-colors ${
+                      isInWishlist(product.id) ? 'text-danger-500' : 'text-gray-400'
+                    }`}
+                  >
+                    <Heart className={`w-5 h-5 ${isInWishlist(product.id) ? 'fill-current' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => compareStore.toggleItem(product)}
+                    disabled={compareFull}
+                    aria-pressed={compared}
+                    aria-label={compared ? 'Remove from comparison' : 'Add to comparison'}
+                    title={compareFull ? `You can compare up to ${MAX_COMPARE_ITEMS} products` : undefined}
+                    className={`p-2 hover:text-primary-500 transition-colors disabled:opacity-50 disabled:hover:text-gray-400 ${
+                      compared ? 'text-primary-600' : 'text-gray-400'
+                    }`}
+                  >
+                    <GitCompare className="w-5 h-5" />
                   </button>
                   <button className="p-2 text-gray-400 hover:text-primary-500 transition-colors">
                     <Share2 className="w-5 h-5" />
@@ -238,39 +287,51 @@ const ProductDetailPage: React.FC = () => {
               <div className="mb-6">
                 <Badge 
                   variant="info" 
-                  className={getConditionColor(product.condition)}
+                  className={getConditionColor(condition)}
                 >
-                  {formatCondition(product.condition)}
+                  {formatCondition(condition)}
                 </Badge>
               </div>
             </div>
 
+            {/* Variants */}
+            {selectedVariant && (
+              <div className="space-y-2">
+                <VariantPicker
+                  product={product}
+                  selected={selectedVariant}
+                  onSelect={handleSelectVariant}
+                />
+                <p className="text-xs text-gray-500">SKU {selectedVariant.sku}</p>
+              </div>
+            )}
+
             {/* Price */}
             <div className="space-y-2">
               <div className="flex items-center space-x-4">
                 <span className="text-3xl font-bold text-gray-900">
-                  {formatPrice(product.price)}
+                  {formatPrice(price)}
                 </span>
-                {product.originalPrice && (
+                {originalPrice && (
                   <span className="text-xl text-gray-500 line-through">
-                    {formatPrice(product.originalPrice)}
+                    {formatPrice(originalPrice)}
                   </span>
                 )}
               </div>
               {discountPercentage > 0 && (
                 <p className="text-success-600 font-medium">
-                  You save {formatPrice(product.originalPrice! - product.price)} ({discountPercentage}% off)
+                  You save {formatPrice(originalPrice! - price)} ({discountPercentage}% off)
                 </p>
               )}
             </div>
 
             {/* Stock Status */}
             <div className="flex items-center space-x-2">
-              {product.inStock ? (
+              {inStock ? (
                 <>
                   <Check className="w-5 h-5 text-success-500" />
                   <span className="text-success-600 font-medium">
-                    In Stock ({product.stockCount} available)
+                    In Stock ({stockCount} available)
                   </span>
                 </>
               ) : (
@@ -281,7 +342,7 @@ const ProductDetailPage: React.FC = () => {
             </div>
 
             {/* Quantity & Add to Cart */}
-            {product.inStock && (
+            {inStock && (
               <div className="space-y-4">
                 <div className="flex items-center space-x-4">
                   <span className="font-medium text-gray-900">Quantity:</span>
@@ -294,7 +355,7 @@ const ProductDetailPage: React.FC = () => {
                     </button>
                     <span className="px-4 py-2 font-medium">{quantity}</span>
                     <button
-                      onClick={() => setQuantity(Math.min(product.stockCount, quantity + 1))}
+                      onClick={() => setQuantity(Math.min(stockCount, quantity + 1))}
                       className="p-2 hover:bg-gray-100 transition-colors"
                     >
                       <Plus className="w-4 h-4" />
@@ -351,6 +412,7 @@ const ProductDetailPage: React.FC = () => {
                 { key: 'description', label: 'Description' },
                 { key: 'specifications', label: 'Specifications' },
                 { key: 'reviews', label: 'Reviews' },
+                { key: 'questions', label: 'Q&A' },
               ].map((tab) => (
                 <button
                   key={tab.key}
@@ -387,17 +449,13 @@ const ProductDetailPage: React.FC = () => {
               </div>
             )}
 
+            {/* Keyed so the review page, sort and form start over for each product */}
             {activeTab === 'reviews' && (
-              <div className="text-center py-12">
-                <Star className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 mb-2">
-                  No reviews yet
-                </h3>
-                <p className="text-gray-500 mb-6">
-                  Be the first to review this product
-                </p>
-                <Button>Write a Review</Button>
-              </div>
+              <ProductReviews key={product.id} product={product} />
+            )}
+
+            {activeTab === 'questions' && (
+              <ProductQuestions product={product} />
             )}
           </div>
         </Card>
@@ -1,85 +1,135 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Filter, Grid, List, SlidersHorizontal } from 'lucide-react';
-import { useProductStore } from '../store';
+import { Filter, Grid, List, SlidersHorizontal, Hash, Infinity as InfinityIcon } from 'lucide-react';
+import {
+  useProductStore,
+  defaultProductFilters,
+  toProductSearchParams,
+  PRICE_RANGE_MAX,
+  ProductListFilters,
+  ProductListView,
+  ProductSort,
+} from '../store';
+import { getFacetCount, productConditions } from '../services/productFacets';
+import useAbortSignal from '../hooks/useAbortSignal';
+import useDebouncedValue from '../hooks/useDebouncedValue';
 import ProductCard from '../components/product/ProductCard';
+import ProductPagination, { PaginationMode } from '../components/product/ProductPagination';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Card from '../components/ui/Card';
 
+// How long the price inputs must sit still before the listing is refetched
+const PRICE_INPUT_DELAY_MS = 300;
+
 const ProductsPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>('pages');
+  const nextSignal = useAbortSignal();
   
   const {
-    products,
+    pageProducts: products,
     categories,
-    loading,
+    pageLoading: loading,
+    loadingMore,
     filters,
     sortBy,
-    fetchProducts,
-    updateFilters,
-    setSortBy,
-    getFilteredProducts,
+    pagination,
+    facets,
+    pageSize,
+    fetchProductPage,
+    fetchNextPage,
+    hydrateFromSearchParams,
   } = useProductStore();
 
+  // The query string is the source of truth for the view, so filtered
+  // listings can be bookmarked, shared and restored with the back button
   useEffect(() => {
-    // Apply URL parameters and fetch products
-    const category = searchParams.get('category');
-    const search = searchParams.get('search');
-    
-    const fetchFilters: any = {};
-    if (category) fetchFilters.category = category;
-    if (search) fetchFilters.search = search;
-    
-    // Update local filters
-    if (category) {
-      updateFilters({ category });
-    }
-    
-    // Fetch products with filters
-    fetchProducts(fetchFilters);
-  }, [searchParams, fetchProducts, updateFilters]);
+    const { page } = hydrateFromSearchParams(searchParams);
+    fetchProductPage(useProductStore.getState().getProductQuery(page), { signal: nextSignal() });
+  }, [searchParams, fetchProductPage, hydrateFromSearchParams, nextSignal]);
+
+  // Facets list every brand in the result set, not just the ones on this page;
+  // selected brands stay visible even when the current results exclude them
+  const brands = facets
+    ? [...new Set([...facets.brand.map(facet => facet.value), ...filters.brand])]
+    : [...new Set(products.map(p => p.brand))];
+  const totalProducts = pagination?.totalItems ?? products.length;
 
-  const filteredProducts = getFilteredProducts();
-  const brands = [...new Set(products.map(p => p.brand))];
-  const conditions = ['excellent', 'good', 'fair', 'refurbished'];
+  // Changes go through the URL and the effect above fetches them; filtering
+  // and sorting happen on the server and every change starts over at page 1
+  const updateView = useCallback((changes: Partial<ProductListView>, replace = false) => {
+    const { filters, sortBy, searchQuery } = useProductStore.getState();
+    setSearchParams(toProductSearchParams({ filters, sortBy, searchQuery, page: 1, ...changes }), { replace });
+  }, [setSearchParams]);
 
-  const handleFilterChange = (key: string, value: any) => {
-    updateFilters({ [key]: value });
-    
-    // Apply filters and fetch new products
-    const newFilters = { ...filters, [key]: value };
-    const fetchFilters: any = {};
-    
-    if (newFilters.category) fetchFilters.category = newFilters.category;
-    if (newFilters.priceRange[0] > 0) fetchFilters.minPrice = newFilters.priceRange[0];
-    if (newFilters.priceRange[1] < 5000) fetchFilters.maxPrice = newFilters.priceRange[1];
-    if (newFilters.condition.length > 0) fetchFilters.condition = newFilters.condition;
-    if (newFilters.brand.length > 0) fetchFilters.brand = newFilters.brand;
-    if (newFilters.inStock) fetchFilters.inStock = newFilters.inStock;
-    
-    fetchProducts(fetchFilters);
+  // Typed prices are held here until the customer stops typing, so the URL
+  // and the listing aren't updated on every keystroke
+  const [priceDraft, setPriceDraft] = useState<[number, number] | null>(null);
+  const debouncedPrice = useDebouncedValue(priceDraft, PRICE_INPUT_DELAY_MS);
+  const priceRange = priceDraft ?? filters.priceRange;
+  const [minPrice, maxPrice] = filters.priceRange;
+
+  // The applied range changed (typed, picked from a bucket, cleared or
+  // restored from history), so the inputs follow it again
+  useEffect(() => {
+    setPriceDraft(null);
+  }, [minPrice, maxPrice]);
+
+  // Waits for the draft to settle; a draft dropped in the meantime is ignored
+  useEffect(() => {
+    if (!debouncedPrice || debouncedPrice !== priceDraft) return;
+    const { filters } = useProductStore.getState();
+    if (filters.priceRange[0] === debouncedPrice[0] && filters.priceRange[1] === debouncedPrice[1]) return;
+    // Replaces the history entry, so adjusting a price doesn't fill the back button
+    updateView({ filters: { ...filters, priceRange: debouncedPrice } }, true);
+  }, [debouncedPrice, priceDraft, updateView]);
+
+  const handleFilterChange = <K extends keyof ProductListFilters>(key: K, value: ProductListFilters[K]) => {
+    updateView({ filters: { ...filters, [key]: value } });
   };
 
   const handlePriceRangeChange = (min: number, max: number) => {
-    const newPriceRange: [number, number] = [min, max];
-    updateFilters({ priceRange: newPriceRange });
-    
-    const fetchFilters: any = { ...filters };
-    if (min > 0) fetchFilters.minPrice = min;
-    if (max < 5000) fetchFilters.maxPrice = max;
-    
-    fetchProducts(fetchFilters);
+    setPriceDraft([min, max]);
+  };
+
+  const handlePriceBucketSelect = (min: number, max: number) => {
+    updateView({ filters: { ...filters, priceRange: [min, max] } });
+  };
+
+  const handleSortChange = (newSortBy: ProductSort) => {
+    updateView({ sortBy: newSortBy });
+  };
+
+  const handlePageChange = (page: number) => {
+    updateView({ page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleSortChange = (newSortBy: string) => {
-    setSortBy(newSortBy as any);
-    fetchProducts({ ...filters, sort: newSortBy });
+  const handleLoadMore = () => {
+    fetchNextPage({ signal: nextSignal() });
   };
 
+  const handlePaginationModeChange = (mode: PaginationMode) => {
+    if (mode === paginationMode) return;
+    setPaginationMode(mode);
+    if (searchParams.has('page')) {
+      updateView({}, true);
+    } else {
+      fetchProductPage(useProductStore.getState().getProductQuery(), { signal: nextSignal() });
+    }
+  };
+
+  // Counts are hidden while unknown; values that would return nothing are disabled
+  const renderCount = (count: number | null) =>
+    count === null ? null : <span className="ml-auto pl-2 text-xs text-gray-400">{count}</span>;
+
+  const facetLabelClass = (disabled: boolean) =>
+    `flex items-center ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`;
+
   if (loading && products.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -101,7 +151,7 @@ const ProductsPage: React.FC = () => {
           </h1>
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
             <p className="text-gray-600">
-              Showing {filteredProducts.length} of {products.length} products
+              Showing {products.length} of {totalProducts} products
             </p>
             
             <div className="flex items-center space-x-4">
@@ -121,10 +171,28 @@ const ProductsPage: React.FC = () => {
                 </button>
               </div>
 
+              {/* Pagination Mode Toggle */}
+              <div className="flex items-center bg-white rounded-lg p-1 border">
+                <button
+                  onClick={() => handlePaginationModeChange('pages')}
+                  title="Numbered pages"
+                  className={`p-2 rounded ${paginationMode === 'pages' ? 'bg-primary-100 text-primary-600' : 'text-gray-400'}`}
+                >
+                  <Hash className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handlePaginationModeChange('infinite')}
+                  title="Infinite scroll"
+                  className={`p-2 rounded ${paginationMode === 'infinite' ? 'bg-primary-100 text-primary-600' : 'text-gray-400'}`}
+                >
+                  <InfinityIcon className="w-4 h-4" />
+                </button>
+              </div>
+
               {/* Sort Dropdown */}
               <select
                 value={sortBy}
-                onChange={(e) => handleSortChange(e.target.value)}
+                onChange={(e) => handleSortChange(e.target.value as ProductSort)}
                 className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
               >
                 <option value="newest">Newest First</option>
@@ -171,21 +239,28 @@ const ProductsPage: React.FC = () => {
                     />
                     <span className="ml-2 text-sm text-gray-700">All Categories</span>
                   </label>
-                  {categories.map((category) => (
-                    <label key={category.id} className="flex items-center">
-                      <input
-                        type="radio"
-                        name="category"
-                        value={category.name}
-                        checked={filters.category === category.name}
-                        onChange={(e) => handleFilterChange('category', e.target.value)}
-                        className="text-primary-600 focus:ring-primary-500"
-                      />
-                      <span className="ml-2 text-sm text-gray-700">
-                        {category.name} ({category.productCount})
-                      </span>
-                    </label>
-                  ))}
+                  {categories.map((category) => {
+                    const count = getFacetCount(facets, 'category', category.name);
+                    const checked = filters.category === category.name;
+                    const disabled = count === 0 && !checked;
+                    return (
+                      <label key={category.id} className={facetLabelClass(disabled)}>
+                        <input
+                          type="radio"
+                          name="category"
+                          value={category.name}
+                          checked={checked}
+                          disabled={disabled}
+                          onChange={(e) => handleFilterChange('category', e.target.value)}
+                          className="text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">
+                          {category.name}
+                        </span>
+                        {renderCount(count)}
+                      </label>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -197,19 +272,44 @@ const ProductsPage: React.FC = () => {
                     <Input
                       type="number"
                       placeholder="Min"
-                      value={filters.priceRange[0]}
-                      onChange={(e) => handlePriceRangeChange(Number(e.target.value), filters.priceRange[1])}
+                      value={priceRange[0]}
+                      onChange={(e) => handlePriceRangeChange(Number(e.target.value), priceRange[1])}
                       className="text-sm"
                     />
                     <span className="text-gray-500">-</span>
                     <Input
                       type="number"
                       placeholder="Max"
-                      value={filters.priceRange[1]}
-                      onChange={(e) => handlePriceRangeChange(filters.priceRange[0], Number(e.target.value))}
+                      value={priceRange[1]}
+                      onChange={(e) => handlePriceRangeChange(priceRange[0], Number(e.target.value))}
                       className="text-sm"
                     />
                   </div>
+                  {facets && facets.price.length > 0 && (
+                    <div className="space-y-1 pt-2">
+                      {facets.price.map((bucket) => {
+                        const max = bucket.max ?? PRICE_RANGE_MAX;
+                        const active = filters.priceRange[0] === bucket.min && filters.priceRange[1] === max;
+                        const disabled = bucket.count === 0 && !active;
+                        return (
+                          <button
+                            key={bucket.min}
+                            type="button"
+                            disabled={disabled}
+                            onClick={() => active
+                              ? handlePriceBucketSelect(0, PRICE_RANGE_MAX)
+                              : handlePriceBucketSelect(bucket.min, max)}
+                            className={`w-full flex items-center px-2 py-1 rounded text-sm text-left ${
+                              active ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                          >
+                            {bucket.max === undefined ? `$${bucket.min}+` : `$${bucket.min} - $${bucket.max}`}
+                            {renderCount(bucket.count)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -217,24 +317,31 @@ const ProductsPage: React.FC = () => {
               <div className="space-y-3 pt-6 border-t">
                 <h4 className="font-medium text-gray-900">Condition</h4>
                 <div className="space-y-2">
-                  {conditions.map((condition) => (
-                    <label key={condition} className="flex items-center">
-                      <input
-                        type="checkbox"
-                        checked={filters.condition.includes(condition)}
-                        onChange={(e) => {
-                          const newConditions = e.target.checked
-                            ? [...filters.condition, condition]
-                            : filters.condition.filter(c => c !== condition);
-                          handleFilterChange('condition', newConditions);
-                        }}
-                        className="text-primary-600 focus:ring-primary-500"
-                      />
-                      <span className="ml-2 text-sm text-gray-700 capitalize">
-                        {condition === 'excellent' ? 'Like New' : condition}
-                      </span>
-                    </label>
-                  ))}
+                  {productConditions.map((condition) => {
+                    const count = getFacetCount(facets, 'condition', condition);
+                    const checked = filters.condition.includes(condition);
+                    const disabled = count === 0 && !checked;
+                    return (
+                      <label key={condition} className={facetLabelClass(disabled)}>
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={disabled}
+                          onChange={(e) => {
+                            const newConditions = e.target.checked
+                              ? [...filters.condition, condition]
+                              : filters.condition.filter(c => c !== condition);
+                            handleFilterChange('condition', newConditions);
+                          }}
+                          className="text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700 capitalize">
+                          {condition === 'excellent' ? 'Like New' : condition}
+                        </span>
+                        {renderCount(count)}
+                      </label>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -242,24 +349,31 @@ const ProductsPage: React.FC = () => {
               <div className="space-y-3 pt-6 border-t">
                 <h4 className="font-medium text-gray-900">Brand</h4>
                 <div className="space-y-2 max-h-40 overflow-y-auto">
-                  {brands.map((brand) => (
-                    <label key={brand} className="flex items-center">
-                      <input
-                        type="checkbox"
-                        checked={filters.brand.includes(brand)}
-                        onChange={(e) => {
-                          const newBrands = e.target.checked
-                            ? [...filters.brand, brand]
-                            : filters.brand.filter(b => b !== brand);
-                          handleFilterChange('brand', newBrands);
-                        }}
-                        className="text-primary-600 focus:ring-primary-500"
-                      />
-                      <span className="ml-2 text-sm text-gray-700">
-                        {brand}
-                      </span>
-                    </label>
-                  ))}
+                  {brands.map((brand) => {
+                    const count = getFacetCount(facets, 'brand', brand);
+                    const checked = filters.brand.includes(brand);
+                    const disabled = count === 0 && !checked;
+                    return (
+                      <label key={brand} className={facetLabelClass(disabled)}>
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={disabled}
+                          onChange={(e) => {
+                            const newBrands = e.target.checked
+                              ? [...filters.brand, brand]
+                              : filters.brand.filter(b => b !== brand);
+                            handleFilterChange('brand', newBrands);
+                          }}
+                          className="text-primary-600 focus:ring-primary-500"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">
+                          {brand}
+                        </span>
+                        {renderCount(count)}
+                      </label>
+                    );
+                  })}
                 </div>
               </div>
 
@@ -287,7 +401,7 @@ const ProductsPage: React.FC = () => {
                 <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                 <p className="text-gray-600">Loading products...</p>
               </div>
-            ) : filteredProducts.length === 0 ? (
+            ) : products.length === 0 ? (
               <Card className="p-12 text-center">
                 <div className="text-gray-400 mb-4">
                   <Filter className="w-16 h-16 mx-auto" />
@@ -299,37 +413,38 @@ const ProductsPage: React.FC = () => {
                   Try adjusting your filters or search criteria
                 </p>
                 <Button
-                  onClick={() => {
-                    updateFilters({
-                      category: '',
-                      priceRange: [0, 5000],
-                      condition: [],
-                      brand: [],
-                      inStock: false,
-                    });
-                    fetchProducts();
-                  }}
+                  onClick={() => updateView({ filters: defaultProductFilters })}
                 >
                   Clear Filters
                 </Button>
               </Card>
             ) : (
-              <div className={`grid gap-6 ${
-                viewMode === 'grid' 
-                  ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3' 
-                  : 'grid-cols-1'
-              }`}>
-                {filteredProducts.map((product, index) => (
-                  <motion.div
-                    key={product.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.05 }}
-                  >
-                    <ProductCard product={product} />
-                  </motion.div>
-                ))}
-              </div>
+              <>
+                <div className={`grid gap-6 ${
+                  viewMode === 'grid' 
+                    ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3' 
+                    : 'grid-cols-1'
+                }`}>
+                  {products.map((product, index) => (
+                    <motion.div
+                      key={product.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: (index % pageSize) * 0.05 }}
+                    >
+                      <ProductCard product={product} />
+                    </motion.div>
+                  ))}
+                </div>
+
+                <ProductPagination
+                  mode={paginationMode}
+                  pagination={pagination}
+                  loadingMore={loadingMore}
+                  onPageChange={handlePageChange}
+                  onLoadMore={handleLoadMore}
+                />
+              </>
             )}
           </div>
         </div>
@@ -1,24 +1,60 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Search, Filter, Grid, List } from 'lucide-react';
+import { Search, Filter, Grid, List, Hash, Infinity as InfinityIcon } from 'lucide-react';
 import { useProductStore } from '../store';
+import { Pagination } from '../config/api';
+import { searchProducts } from '../services/productSearch';
+import useAbortSignal from '../hooks/useAbortSignal';
 import ProductCard from '../components/product/ProductCard';
+import ProductPagination, { PaginationMode } from '../components/product/ProductPagination';
 import Button from '../components/ui/Button';
 import Card from '../components/ui/Card';
 
 const SearchResultsPage: React.FC = () => {
   const [searchParams] = useSearchParams();
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>('pages');
+  const [page, setPage] = useState(1);
   const query = searchParams.get('q') || '';
   
-  const { products, setSearchQuery, getFilteredProducts } = useProductStore();
+  const nextSignal = useAbortSignal();
+  
+  const { searchCatalog, searchCatalogLoading, pageSize, fetchSearchCatalog } = useProductStore();
+
+  useEffect(() => {
+    fetchSearchCatalog({ signal: nextSignal() });
+  }, [fetchSearchCatalog, nextSignal]);
 
   useEffect(() => {
-    setSearchQuery(query);
-  }, [query, setSearchQuery]);
+    setPage(1);
+  }, [query]);
+
+  // Results are ranked on the client, so typos still find products
+  const results = useMemo(() => searchProducts(searchCatalog, query), [searchCatalog, query]);
+
+  const totalPages = Math.max(1, Math.ceil(results.length / pageSize));
+  const pagination: Pagination = {
+    currentPage: page,
+    totalPages,
+    totalItems: results.length,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+  const visibleResults = paginationMode === 'pages'
+    ? results.slice((page - 1) * pageSize, page * pageSize)
+    : results.slice(0, page * pageSize);
 
-  const filteredProducts = getFilteredProducts();
+  const handlePageChange = (nextPage: number) => {
+    setPage(nextPage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handlePaginationModeChange = (mode: PaginationMode) => {
+    if (mode === paginationMode) return;
+    setPaginationMode(mode);
+    setPage(1);
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -33,10 +69,28 @@ const SearchResultsPage: React.FC = () => {
           
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
             <h1 className="text-3xl font-bold text-gray-900">
-              {filteredProducts.length} Results Found
+              {results.length} Results Found
             </h1>
             
             <div className="flex items-center space-x-4">
+              {/* Pagination Mode Toggle */}
+              <div className="flex items-center bg-white rounded-lg p-1 border">
+                <button
+                  onClick={() => handlePaginationModeChange('pages')}
+                  title="Numbered pages"
+                  className={`p-2 rounded ${paginationMode === 'pages' ? 'bg-primary-100 text-primary-600' : 'text-gray-400'}`}
+                >
+                  <Hash className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handlePaginationModeChange('infinite')}
+                  title="Infinite scroll"
+                  className={`p-2 rounded ${paginationMode === 'infinite' ? 'bg-primary-100 text-primary-600' : 'text-gray-400'}`}
+                >
+                  <InfinityIcon className="w-4 h-4" />
+                </button>
+              </div>
+
               {/* View Mode Toggle */}
               <div className="flex items-center bg-white rounded-lg p-1 border">
                 <button
@@ -57,7 +111,12 @@ const SearchResultsPage: React.FC = () => {
         </div>
 
         {/* Results */}
-        {filteredProducts.length === 0 ? (
+        {searchCatalogLoading ? (
+          <div className="text-center py-12">
+            <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-gray-600">Searching products...</p>
+          </div>
+        ) : results.length === 0 ? (
           <Card className="p-12 text-center">
             <div className="text-gray-400 mb-4">
               <Search className="w-16 h-16 mx-auto" />
@@ -73,22 +132,32 @@ const SearchResultsPage: React.FC = () => {
             </Button>
           </Card>
         ) : (
-          <div className={`grid gap-6 ${
-            viewMode === 'grid' 
-              ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4' 
-              : 'grid-cols-1'
-          }`}>
-            {filteredProducts.map((product, index) => (
-              <motion.div
-                key={product.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-              >
-                <ProductCard product={product} />
-              </motion.div>
-            ))}
-          </div>
+          <>
+            <div className={`grid gap-6 ${
+              viewMode === 'grid' 
+                ? 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4' 
+                : 'grid-cols-1'
+            }`}>
+              {visibleResults.map(({ product, highlights }, index) => (
+                <motion.div
+                  key={product.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: (index % pageSize) * 0.05 }}
+                >
+                  <ProductCard product={product} highlights={highlights} />
+                </motion.div>
+              ))}
+            </div>
+
+            <ProductPagination
+              mode={paginationMode}
+              pagination={pagination}
+              loadingMore={false}
+              onPageChange={handlePageChange}
+              onLoadMore={() => setPage(current => current + 1)}
+            />
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Heart, ShoppingCart, X, ArrowRight } from 'lucide-react';
+import { useAuthStore, useWishlistStore } from '../store';
+import { formatPrice, formatCondition, formatDate } from '../utils/format';
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+
+const WishlistPage: React.FC = () => {
+  const { isAuthenticated } = useAuthStore();
+  const { items, syncing, error, removeItem, moveToCart } = useWishlistStore();
+
+  if (items.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto text-center">
+          <Card className="p-12">
+            <Heart className="w-16 h-16 text-gray-300 mx-auto mb-6" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">
+              Your wishlist is empty
+            </h2>
+            <p className="text-gray-600 mb-8">
+              Tap the heart on any product to save it here for later.
+            </p>
+            <Link to="/products">
+              <Button size="lg">
+                Browse Products
+                <ArrowRight className="w-5 h-5 ml-2" />
+              </Button>
+            </Link>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Wishlist
+          </h1>
+          <p className="text-gray-600">
+            {items.length} saved {items.length === 1 ? 'item' : 'items'}
+            {syncing && ' · Syncing…'}
+          </p>
+          {!isAuthenticated && (
+            <p className="text-sm text-gray-500 mt-2">
+              <Link to="/login" className="text-primary-600 hover:text-primary-700 font-medium">
+                Sign in
+              </Link>{' '}
+              to keep your saved items on every device.
+            </p>
+          )}
+          {error && (
+            <p className="text-sm text-danger-600 mt-2">{error}</p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {items.map((item, index) => (
+            <motion.div
+              key={item.product.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <Card className="p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+                  <Link to={`/product/${item.product.id}`} className="flex-shrink-0">
+                    <img
+                      src={item.product.images[0]}
+                      alt={item.product.name}
+                      className="w-24 h-24 object-cover rounded-lg"
+                    />
+                  </Link>
+
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/product/${item.product.id}`}
+                      className="text-lg font-semibold text-gray-900 hover:text-primary-600 transition-colors"
+                    >
+                      {item.product.name}
+                    </Link>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {item.product.brand} • {formatCondition(item.product.condition)}
+                    </p>
+                    <div className="flex items-center space-x-3 mt-2">
+                      <span className="text-lg font-bold text-gray-900">
+                        {formatPrice(item.product.price)}
+                      </span>
+                      {!item.product.inStock && (
+                        <Badge variant="danger" size="sm">Out of Stock</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Saved {formatDate(item.addedAt)}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      onClick={() => moveToCart(item.product.id)}
+                      disabled={!item.product.inStock}
+                    >
+                      <ShoppingCart className="w-4 h-4 mr-2" />
+                      Move to Cart
+                    </Button>
+                    <button
+                      onClick={() => removeItem(item.product.id)}
+                      aria-label="Remove from wishlist"
+                      className="p-2 text-danger-500 hover:bg-danger-50 rounded-lg transition-colors"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WishlistPage;
@@ -9,7 +9,10 @@ import {
   Settings,
   LogOut,
   Zap,
-  FolderOpen
+  FolderOpen,
+  MessageSquare,
+  HelpCircle,
+  Tag
 } from 'lucide-react';
 import { useAuthStore } from '../../store';
 
@@ -28,6 +31,9 @@ const AdminLayout: React.FC = () => {
     { name: 'Products', href: '/admin/products', icon: Package },
     { name: 'Categories', href: '/admin/categories', icon: FolderOpen },
     { name: 'Orders', href: '/admin/orders', icon: ShoppingCart },
+    { name: 'Reviews', href: '/admin/reviews', icon: MessageSquare },
+    { name: 'Questions', href: '/admin/questions', icon: HelpCircle },
+    { name: 'Coupons', href: '/admin/coupons', icon: Tag },
     { name: 'Users', href: '/admin/users', icon: Users },
     { name: 'Settings', href: '/admin/settings', icon: Settings },
   ];
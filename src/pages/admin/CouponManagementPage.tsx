@@ -0,0 +1,505 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Plus, Search, Edit, Trash2, Tag, Save } from 'lucide-react';
+import { Coupon } from '../../store';
+import { CouponInput } from '../../config/api';
+import couponService from '../../services/couponService';
+import { CouponStatus, describeCouponBenefit, getCouponStatus, normalizeCouponCode } from '../../services/couponRules';
+import useAbortSignal from '../../hooks/useAbortSignal';
+import { formatDate, formatPrice } from '../../utils/format';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Card from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import Modal from '../../components/ui/Modal';
+
+// Form state keeps numbers and lists as typed; they are parsed on save
+interface CouponFormState {
+  code: string;
+  description: string;
+  type: Coupon['type'];
+  value: string;
+  categories: string;
+  brands: string;
+  minimumSpend: string;
+  // yyyy-mm-dd; the code stops working at the end of that day
+  expiresAt: string;
+  usageLimit: string;
+  active: boolean;
+}
+
+const emptyCouponForm: CouponFormState = {
+  code: '',
+  description: '',
+  type: 'percentage',
+  value: '',
+  categories: '',
+  brands: '',
+  minimumSpend: '',
+  expiresAt: '',
+  usageLimit: '',
+  active: true,
+};
+
+const statusBadges: Record<CouponStatus, { label: string; variant: 'success' | 'secondary' | 'warning' | 'danger' }> = {
+  active: { label: 'Active', variant: 'success' },
+  inactive: { label: 'Inactive', variant: 'secondary' },
+  expired: { label: 'Expired', variant: 'danger' },
+  used_up: { label: 'Used Up', variant: 'warning' },
+};
+
+const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const toForm = (coupon: Coupon): CouponFormState => ({
+  code: coupon.code,
+  description: coupon.description || '',
+  type: coupon.type,
+  value: coupon.type === 'free_shipping' ? '' : String(coupon.value),
+  categories: (coupon.categories || []).join(', '),
+  brands: (coupon.brands || []).join(', '),
+  minimumSpend: coupon.minimumSpend ? String(coupon.minimumSpend) : '',
+  expiresAt: coupon.expiresAt ? coupon.expiresAt.slice(0, 10) : '',
+  usageLimit: coupon.usageLimit !== undefined ? String(coupon.usageLimit) : '',
+  active: coupon.active,
+});
+
+const toInput = (form: CouponFormState): CouponInput => ({
+  code: normalizeCouponCode(form.code),
+  description: form.description.trim() || undefined,
+  type: form.type,
+  value: form.type === 'free_shipping' ? 0 : parseFloat(form.value),
+  categories: splitList(form.categories),
+  brands: splitList(form.brands),
+  minimumSpend: form.minimumSpend ? parseFloat(form.minimumSpend) : undefined,
+  expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : undefined,
+  usageLimit: form.usageLimit ? parseInt(form.usageLimit) : undefined,
+  active: form.active,
+});
+
+// Why the form can't be saved yet, or null when it can
+const getFormProblem = (form: CouponFormState): string | null => {
+  if (!normalizeCouponCode(form.code)) return 'Enter a code.';
+  if (!/^[A-Z0-9_-]+$/.test(normalizeCouponCode(form.code))) return 'Codes may only use letters, numbers, - and _.';
+  if (form.type !== 'free_shipping') {
+    const value = parseFloat(form.value);
+    if (!(value > 0)) return 'Enter a discount greater than zero.';
+    if (form.type === 'percentage' && value > 100) return 'A percentage discount can be at most 100%.';
+  }
+  if (form.usageLimit && !(parseInt(form.usageLimit) > 0)) return 'The usage limit must be at least 1.';
+  return null;
+};
+
+const CouponManagementPage: React.FC = () => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showFormModal, setShowFormModal] = useState(false);
+  // null while adding a new coupon
+  const [couponToEdit, setCouponToEdit] = useState<Coupon | null>(null);
+  const [couponToDelete, setCouponToDelete] = useState<Coupon | null>(null);
+  const [form, setForm] = useState<CouponFormState>(emptyCouponForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const nextSignal = useAbortSignal();
+
+  useEffect(() => {
+    const signal = nextSignal();
+    const loadCoupons = async () => {
+      try {
+        const response = await couponService.getCoupons({ signal });
+        if (response.success) {
+          setCoupons(response.data?.coupons || []);
+          setError(null);
+        } else {
+          setError(response.message || 'Failed to fetch coupons');
+        }
+        setLoading(false);
+      } catch {
+        // Aborted on unmount
+      }
+    };
+
+    loadCoupons();
+  }, [nextSignal]);
+
+  const filteredCoupons = coupons.filter(coupon =>
+    coupon.code.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (coupon.description || '').toLowerCase().includes(searchQuery.toLowerCase())
+  );
+  const activeCount = coupons.filter(coupon => getCouponStatus(coupon) === 'active').length;
+  const totalRedemptions = coupons.reduce((sum, coupon) => sum + coupon.usageCount, 0);
+  const formProblem = getFormProblem(form);
+
+  const openForm = (coupon: Coupon | null) => {
+    setCouponToEdit(coupon);
+    setForm(coupon ? toForm(coupon) : emptyCouponForm);
+    setFormError(null);
+    setShowFormModal(true);
+  };
+
+  const handleSave = async () => {
+    if (formProblem) return;
+
+    setSaving(true);
+    const response = couponToEdit
+      ? await couponService.updateCoupon(couponToEdit.id, toInput(form))
+      : await couponService.createCoupon(toInput(form));
+    setSaving(false);
+
+    const saved = response.data?.coupon;
+    if (!response.success || !saved) {
+      // Duplicate codes come back as a conflict
+      setFormError(response.error?.isConflict ? 'Another coupon already uses this code.' : response.message || 'Failed to save coupon');
+      return;
+    }
+
+    setCoupons(current => couponToEdit
+      ? current.map(coupon => (coupon.id === saved.id ? saved : coupon))
+      : [saved, ...current]);
+    setShowFormModal(false);
+  };
+
+  const confirmDelete = async () => {
+    if (!couponToDelete) return;
+
+    setSaving(true);
+    const response = await couponService.deleteCoupon(couponToDelete.id);
+    setSaving(false);
+
+    if (response.success) {
+      setCoupons(current => current.filter(coupon => coupon.id !== couponToDelete.id));
+      setError(null);
+    } else {
+      setError(response.message || 'Failed to delete coupon');
+    }
+    setCouponToDelete(null);
+  };
+
+  const describeConditions = (coupon: Coupon) => {
+    const conditions = [];
+    if (coupon.minimumSpend) conditions.push(`Min. ${formatPrice(coupon.minimumSpend)}`);
+    if (coupon.categories?.length) conditions.push(`Categories: ${coupon.categories.join(', ')}`);
+    if (coupon.brands?.length) conditions.push(`Brands: ${coupon.brands.join(', ')}`);
+    return conditions.length > 0 ? conditions.join(' · ') : 'None';
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Coupons</h1>
+          <p className="text-gray-600 mt-2">
+            Create promo codes for discounts and free shipping
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="w-5 h-5 mr-2" />
+          Add Coupon
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Total Coupons</p>
+              <p className="text-2xl font-bold text-gray-900">{coupons.length}</p>
+            </div>
+            <Tag className="w-8 h-8 text-primary-600" />
+          </div>
+        </Card>
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Active</p>
+              <p className="text-2xl font-bold text-gray-900">{activeCount}</p>
+            </div>
+            <Tag className="w-8 h-8 text-success-600" />
+          </div>
+        </Card>
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Redemptions</p>
+              <p className="text-2xl font-bold text-gray-900">{totalRedemptions}</p>
+            </div>
+            <Tag className="w-8 h-8 text-accent-600" />
+          </div>
+        </Card>
+      </div>
+
+      {/* Search */}
+      <Card className="p-6">
+        <Input
+          placeholder="Search coupons..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          icon={<Search className="w-4 h-4" />}
+        />
+        {error && (
+          <p className="text-sm text-danger-600 mt-4">{error}</p>
+        )}
+      </Card>
+
+      {/* Coupons Table */}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading coupons...</p>
+        </div>
+      ) : filteredCoupons.length === 0 ? (
+        <Card className="p-12 text-center">
+          <Tag className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No coupons found
+          </h3>
+          <p className="text-gray-500">
+            {coupons.length === 0 ? 'Add a coupon to offer your first promo code.' : 'Try a different search.'}
+          </p>
+        </Card>
+      ) : (
+        <Card className="overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Code
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Discount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Conditions
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expires
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Used
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredCoupons.map((coupon, index) => {
+                  const status = statusBadges[getCouponStatus(coupon)];
+                  return (
+                    <motion.tr
+                      key={coupon.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      className="hover:bg-gray-50"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-mono font-semibold text-gray-900">{coupon.code}</div>
+                        {coupon.description && (
+                          <div className="text-sm text-gray-500">{coupon.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {describeCouponBenefit(coupon)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {describeConditions(coupon)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {coupon.expiresAt ? formatDate(coupon.expiresAt) : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {coupon.usageCount}{coupon.usageLimit !== undefined && ` / ${coupon.usageLimit}`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge variant={status.variant} size="sm">
+                          {status.label}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openForm(coupon)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCouponToDelete(coupon)}
+                            className="text-danger-600 hover:text-danger-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </motion.tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {/* Add / Edit Coupon Modal */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={() => setShowFormModal(false)}
+        title={couponToEdit ? 'Edit Coupon' : 'Add New Coupon'}
+      >
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Code"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              placeholder="SPRING15"
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as Coupon['type'] })}
+                className="block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+              >
+                <option value="percentage">Percentage off</option>
+                <option value="fixed">Fixed amount off</option>
+                <option value="free_shipping">Free shipping</option>
+              </select>
+            </div>
+          </div>
+          <Input
+            label="Description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="Shown to customers with the code"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            {form.type !== 'free_shipping' && (
+              <Input
+                label={form.type === 'percentage' ? 'Percent Off' : 'Amount Off'}
+                type="number"
+                step={form.type === 'percentage' ? '1' : '0.01'}
+                min="0"
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: e.target.value })}
+              />
+            )}
+            <Input
+              label="Minimum Spend"
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.minimumSpend}
+              onChange={(e) => setForm({ ...form, minimumSpend: e.target.value })}
+              placeholder="None"
+            />
+          </div>
+          <Input
+            label="Categories (comma separated)"
+            value={form.categories}
+            onChange={(e) => setForm({ ...form, categories: e.target.value })}
+            placeholder="All categories"
+          />
+          <Input
+            label="Brands (comma separated)"
+            value={form.brands}
+            onChange={(e) => setForm({ ...form, brands: e.target.value })}
+            placeholder="All brands"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Expires On"
+              type="date"
+              value={form.expiresAt}
+              onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+            />
+            <Input
+              label="Usage Limit"
+              type="number"
+              min="1"
+              value={form.usageLimit}
+              onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+              placeholder="Unlimited"
+            />
+          </div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="coupon-active"
+              checked={form.active}
+              onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <label htmlFor="coupon-active" className="ml-2 text-sm text-gray-700">
+              Active
+            </label>
+          </div>
+          {(formError || (form.code && formProblem)) && (
+            <p className="text-sm text-danger-600">{formError || formProblem}</p>
+          )}
+          <div className="flex space-x-4 justify-end">
+            <Button
+              variant="outline"
+              onClick={() => setShowFormModal(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!!formProblem || saving}
+              loading={saving}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {couponToEdit ? 'Update Coupon' : 'Add Coupon'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!couponToDelete}
+        onClose={() => setCouponToDelete(null)}
+        title="Delete Coupon"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Are you sure you want to delete {couponToDelete?.code}? Customers will no longer be able to use it.
+            Orders that already used it keep their discount.
+          </p>
+          <div className="flex space-x-4 justify-end">
+            <Button
+              variant="outline"
+              onClick={() => setCouponToDelete(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              onClick={confirmDelete}
+              loading={saving}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Coupon
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default CouponManagementPage;
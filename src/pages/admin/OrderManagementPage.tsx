@@ -12,31 +12,40 @@ import {
   Edit,
   Save
 } from 'lucide-react';
-import { useAdminStore } from '../../store';
+import { ShippingMethodId, useAdminStore } from '../../store';
+import useAbortSignal from '../../hooks/useAbortSignal';
+import { formatVariantLabel, getItemPrice } from '../../services/productVariants';
+import { getOrderTotals } from '../../services/pricing';
+import { SHIPPING_METHOD_LABELS } from '../../services/shippingRules';
 import { formatPrice, formatDate } from '../../utils/format';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import Card from '../../components/ui/Card';
 import Badge from '../../components/ui/Badge';
 import Modal from '../../components/ui/Modal';
+import TotalsBreakdown from '../../components/cart/TotalsBreakdown';
 
 const OrderManagementPage: React.FC = () => {
   const { orders, fetchOrders, updateOrderStatus } = useAdminStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [shippingFilter, setShippingFilter] = useState('all');
   const [showOrderModal, setShowOrderModal] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<any>(null);
   const [loading, setLoading] = useState(false);
+  const nextSignal = useAbortSignal();
 
   useEffect(() => {
-    fetchOrders();
-  }, [fetchOrders]);
+    fetchOrders({ signal: nextSignal() });
+  }, [fetchOrders, nextSignal]);
 
   const filteredOrders = orders.filter(order => {
     const matchesSearch = order.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          order.shippingAddress.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    // Orders placed before shipping methods existed all shipped standard
+    const matchesShipping = shippingFilter === 'all' || (order.shippingMethod ?? 'standard') === shippingFilter;
+    return matchesSearch && matchesStatus && matchesShipping;
   });
 
   const getStatusIcon = (status: string) => {
@@ -73,7 +82,7 @@ const OrderManagementPage: React.FC = () => {
     setLoading(true);
     try {
       await updateOrderStatus(orderId, newStatus);
-      await fetchOrders(); // Refresh orders
+      await fetchOrders({ signal: nextSignal() }); // Refresh orders
     } catch (error) {
       console.error('Failed to update order status:', error);
     } finally {
@@ -144,6 +153,17 @@ const OrderManagementPage: React.FC = () => {
               <option value="delivered">Delivered</option>
               <option value="cancelled">Cancelled</option>
             </select>
+            <select
+              value={shippingFilter}
+              onChange={(e) => setShippingFilter(e.target.value)}
+              aria-label="Shipping method"
+              className="rounded-lg border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+            >
+              <option value="all">All Shipping</option>
+              {Object.entries(SHIPPING_METHOD_LABELS).map(([method, label]) => (
+                <option key={method} value={method}>{label}</option>
+              ))}
+            </select>
           </div>
         </div>
       </Card>
@@ -268,6 +288,12 @@ const OrderManagementPage: React.FC = () => {
                       {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
                     </Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Shipping:</span>
+                    <span className="font-medium">
+                      {SHIPPING_METHOD_LABELS[(selectedOrder.shippingMethod ?? 'standard') as ShippingMethodId]}
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Total:</span>
                     <span className="font-bold text-lg">{formatPrice(selectedOrder.total)}</span>
@@ -299,20 +325,33 @@ const OrderManagementPage: React.FC = () => {
                     />
                     <div className="flex-1">
                       <h4 className="font-medium text-gray-900">{item.product.name}</h4>
-                      <p className="text-sm text-gray-500">{item.product.brand}</p>
+                      <p className="text-sm text-gray-500">
+                        {item.product.brand}
+                        {item.variant && ` • ${formatVariantLabel(item.variant, item.product.options)}`}
+                      </p>
+                      {item.variant?.sku && (
+                        <p className="text-xs text-gray-400">SKU {item.variant.sku}</p>
+                      )}
                       <p className="text-sm text-gray-500">Quantity: {item.quantity}</p>
                     </div>
                     <div className="text-right">
                       <p className="font-medium text-gray-900">
-                        {formatPrice(item.product.price * item.quantity)}
+                        {formatPrice(getItemPrice(item) * item.quantity)}
                       </p>
                       <p className="text-sm text-gray-500">
-                        {formatPrice(item.product.price)} each
+                        {formatPrice(getItemPrice(item))} each
                       </p>
                     </div>
                   </div>
                 ))}
               </div>
+              {getOrderTotals(selectedOrder) && (
+                <TotalsBreakdown
+                  totals={getOrderTotals(selectedOrder)!}
+                  couponCode={selectedOrder.couponCode}
+                  className="mt-4 pt-4 border-t border-gray-200 md:ml-auto md:max-w-xs"
+                />
+              )}
             </div>
           </div>
         )}
@@ -12,13 +12,32 @@ import {
   Save,
   X
 } from 'lucide-react';
-import { useProductStore, useAdminStore } from '../../store';
+import { useProductStore, useAdminStore, ProductOption, ProductVariant } from '../../store';
 import { formatPrice, formatCondition, getConditionColor } from '../../utils/format';
+import { cleanOptions, summarizeVariants, validateVariants } from '../../services/productVariants';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import Card from '../../components/ui/Card';
 import Badge from '../../components/ui/Badge';
 import Modal from '../../components/ui/Modal';
+import VariantEditor from '../../components/product/VariantEditor';
+
+const emptyProductForm = {
+  name: '',
+  description: '',
+  price: '',
+  originalPrice: '',
+  brand: '',
+  category: '',
+  condition: 'good',
+  stockCount: '',
+  weight: '',
+  images: [''],
+  specifications: {} as Record<string, string>,
+  featured: false,
+  options: [] as ProductOption[],
+  variants: [] as ProductVariant[]
+};
 
 const ProductManagementPage: React.FC = () => {
   const { products, categories, fetchProducts, fetchCategories } = useProductStore();
@@ -32,19 +51,8 @@ const ProductManagementPage: React.FC = () => {
   const [productToDelete, setProductToDelete] = useState<string | null>(null);
   const [productToEdit, setProductToEdit] = useState<any>(null);
   const [loading, setLoading] = useState(false);
-  const [newProduct, setNewProduct] = useState({
-    name: '',
-    description: '',
-    price: '',
-    originalPrice: '',
-    brand: '',
-    category: '',
-    condition: 'good',
-    stockCount: '',
-    images: [''],
-    specifications: {} as Record<string, string>,
-    featured: false
-  });
+  const [newProduct, setNewProduct] = useState(emptyProductForm);
+  const [variantError, setVariantError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchProducts();
@@ -80,19 +88,8 @@ const ProductManagementPage: React.FC = () => {
   };
 
   const handleAddProduct = () => {
-    setNewProduct({
-      name: '',
-      description: '',
-      price: '',
-      originalPrice: '',
-      brand: '',
-      category: '',
-      condition: 'good',
-      stockCount: '',
-      images: [''],
-      specifications: {},
-      featured: false
-    });
+    setNewProduct(emptyProductForm);
+    setVariantError(null);
     setShowAddModal(true);
   };
 
@@ -107,15 +104,39 @@ const ProductManagementPage: React.FC = () => {
       category: product.category,
       condition: product.condition,
       stockCount: product.stockCount.toString(),
+      weight: product.weight?.toString() || '',
       images: product.images,
       specifications: product.specifications || {},
-      featured: product.featured || false
+      featured: product.featured || false,
+      options: product.options || [],
+      variants: product.variants || []
     });
+    setVariantError(null);
     setShowEditModal(true);
   };
 
+  const canSaveProduct = Boolean(
+    newProduct.name && newProduct.category && (newProduct.price || newProduct.variants.length > 0)
+  );
+
+  // With variants, price and stock on the product are derived from them
+  const getVariantFields = () => {
+    if (newProduct.variants.length === 0) return { options: [], variants: [] };
+    return {
+      options: cleanOptions(newProduct.options),
+      variants: newProduct.variants,
+      ...summarizeVariants(newProduct.variants)
+    };
+  };
+
+  const checkVariants = () => {
+    const error = validateVariants(newProduct.variants);
+    setVariantError(error);
+    return error === null;
+  };
+
   const handleSaveProduct = async () => {
-    if (!newProduct.name || !newProduct.price || !newProduct.category) return;
+    if (!canSaveProduct || !checkVariants()) return;
     
     setLoading(true);
     try {
@@ -129,29 +150,19 @@ const ProductManagementPage: React.FC = () => {
         condition: newProduct.condition as 'excellent' | 'good' | 'fair' | 'refurbished',
         stockCount: parseInt(newProduct.stockCount),
         inStock: parseInt(newProduct.stockCount) > 0,
+        weight: newProduct.weight ? parseFloat(newProduct.weight) : undefined,
         images: newProduct.images.filter(img => img.trim() !== ''),
         specifications: newProduct.specifications,
         featured: newProduct.featured,
         rating: 4.5,
-        reviewCount: 0
+        reviewCount: 0,
+        ...getVariantFields()
       };
 
       await addProduct(productData);
       await fetchProducts(); // Refresh products
       setShowAddModal(false);
-      setNewProduct({
-        name: '',
-        description: '',
-        price: '',
-        originalPrice: '',
-        brand: '',
-        category: '',
-        condition: 'good',
-        stockCount: '',
-        images: [''],
-        specifications: {},
-        featured: false
-      });
+      setNewProduct(emptyProductForm);
     } catch (error) {
       console.error('Failed to add product:', error);
     } finally {
@@ -160,7 +171,7 @@ const ProductManagementPage: React.FC = () => {
   };
 
   const handleUpdateProduct = async () => {
-    if (!newProduct.name || !newProduct.price || !newProduct.category || !productToEdit) return;
+    if (!canSaveProduct || !productToEdit || !checkVariants()) return;
     
     setLoading(true);
     try {
@@ -174,28 +185,18 @@ const ProductManagementPage: React.FC = () => {
         condition: newProduct.condition as 'excellent' | 'good' | 'fair' | 'refurbished',
         stockCount: parseInt(newProduct.stockCount),
         inStock: parseInt(newProduct.stockCount) > 0,
+        weight: newProduct.weight ? parseFloat(newProduct.weight) : undefined,
         images: newProduct.images.filter(img => img.trim() !== ''),
         specifications: newProduct.specifications,
-        featured: newProduct.featured
+        featured: newProduct.featured,
+        ...getVariantFields()
       };
 
       await updateProduct(productToEdit.id, productData);
       await fetchProducts(); // Refresh products
       setShowEditModal(false);
       setProductToEdit(null);
-      setNewProduct({
-        name: '',
-        description: '',
-        price: '',
-        originalPrice: '',
-        brand: '',
-        category: '',
-        condition: 'good',
-        stockCount: '',
-        images: [''],
-        specifications: {},
-        featured: false
-      });
+      setNewProduct(emptyProductForm);
     } catch (error) {
       console.error('Failed to update product:', error);
     } finally {
@@ -357,6 +358,11 @@ const ProductManagementPage: React.FC = () => {
                     }`}>
                       {product.stockCount}
                     </span>
+                    {(product.variants?.length ?? 0) > 0 && (
+                      <div className="text-xs text-gray-500">
+                        {product.variants!.length} variants
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <Badge 
@@ -438,7 +444,7 @@ const ProductManagementPage: React.FC = () => {
               rows={3}
             />
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <Input
               label="Price ($)"
               type="number"
@@ -446,6 +452,7 @@ const ProductManagementPage: React.FC = () => {
               value={newProduct.price}
               onChange={(e) => setNewProduct({ ...newProduct, price: e.target.value })}
               placeholder="0.00"
+              disabled={newProduct.variants.length > 0}
             />
             <Input
               label="Original Price ($)"
@@ -461,6 +468,15 @@ const ProductManagementPage: React.FC = () => {
               value={newProduct.stockCount}
               onChange={(e) => setNewProduct({ ...newProduct, stockCount: e.target.value })}
               placeholder="0"
+              disabled={newProduct.variants.length > 0}
+            />
+            <Input
+              label="Weight (kg)"
+              type="number"
+              step="0.01"
+              value={newProduct.weight}
+              onChange={(e) => setNewProduct({ ...newProduct, weight: e.target.value })}
+              placeholder="0.00"
             />
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -501,6 +517,19 @@ const ProductManagementPage: React.FC = () => {
             onChange={(e) => setNewProduct({ ...newProduct, images: [e.target.value] })}
             placeholder="Enter image URL"
           />
+          <VariantEditor
+            options={newProduct.options}
+            variants={newProduct.variants}
+            defaults={{
+              price: parseFloat(newProduct.price) || 0,
+              originalPrice: newProduct.originalPrice ? parseFloat(newProduct.originalPrice) : undefined,
+              condition: newProduct.condition as ProductVariant['condition']
+            }}
+            onChange={({ options, variants }) => setNewProduct({ ...newProduct, options, variants })}
+          />
+          {variantError && (
+            <p className="text-sm text-danger-600">{variantError}</p>
+          )}
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -522,7 +551,7 @@ const ProductManagementPage: React.FC = () => {
             </Button>
             <Button
               onClick={handleSaveProduct}
-              disabled={!newProduct.name || !newProduct.price || !newProduct.category || loading}
+              disabled={!canSaveProduct || loading}
               loading={loading}
             >
               <Save className="w-4 h-4 mr-2" />
@@ -566,7 +595,7 @@ const ProductManagementPage: React.FC = () => {
               rows={3}
             />
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <Input
               label="Price ($)"
               type="number"
@@ -574,6 +603,7 @@ const ProductManagementPage: React.FC = () => {
               value={newProduct.price}
               onChange={(e) => setNewProduct({ ...newProduct, price: e.target.value })}
               placeholder="0.00"
+              disabled={newProduct.variants.length > 0}
             />
             <Input
               label="Original Price ($)"
@@ -589,6 +619,15 @@ const ProductManagementPage: React.FC = () => {
               value={newProduct.stockCount}
               onChange={(e) => setNewProduct({ ...newProduct, stockCount: e.target.value })}
               placeholder="0"
+              disabled={newProduct.variants.length > 0}
+            />
+            <Input
+              label="Weight (kg)"
+              type="number"
+              step="0.01"
+              value={newProduct.weight}
+              onChange={(e) => setNewProduct({ ...newProduct, weight: e.target.value })}
+              placeholder="0.00"
             />
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -629,6 +668,19 @@ const ProductManagementPage: React.FC = () => {
             onChange={(e) => setNewProduct({ ...newProduct, images: [e.target.value] })}
             placeholder="Enter image URL"
           />
+          <VariantEditor
+            options={newProduct.options}
+            variants={newProduct.variants}
+            defaults={{
+              price: parseFloat(newProduct.price) || 0,
+              originalPrice: newProduct.originalPrice ? parseFloat(newProduct.originalPrice) : undefined,
+              condition: newProduct.condition as ProductVariant['condition']
+            }}
+            onChange={({ options, variants }) => setNewProduct({ ...newProduct, options, variants })}
+          />
+          {variantError && (
+            <p className="text-sm text-danger-600">{variantError}</p>
+          )}
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -650,7 +702,7 @@ const ProductManagementPage: React.FC = () => {
             </Button>
             <Button
               onClick={handleUpdateProduct}
-              disabled={!newProduct.name || !newProduct.price || !newProduct.category || loading}
+              disabled={!canSaveProduct || loading}
               loading={loading}
             >
               <Save className="w-4 h-4 mr-2" />
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { Filter, HelpCircle, Send } from 'lucide-react';
+import { ProductQuestion } from '../../store';
+import { Pagination as PaginationInfo } from '../../config/api';
+import questionService, { QuestionQuery } from '../../services/questionService';
+import useAbortSignal from '../../hooks/useAbortSignal';
+import { formatDate } from '../../utils/format';
+import Button from '../../components/ui/Button';
+import Card from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import Pagination from '../../components/ui/Pagination';
+
+type QuestionStatus = NonNullable<QuestionQuery['status']>;
+
+const PAGE_SIZE = 10;
+
+const QuestionQueuePage: React.FC = () => {
+  const [questions, setQuestions] = useState<ProductQuestion[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [statusFilter, setStatusFilter] = useState<QuestionStatus>('unanswered');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Answer drafts keyed by question id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  // Questions with an answer request in flight
+  const [updating, setUpdating] = useState<string[]>([]);
+  const nextSignal = useAbortSignal();
+
+  useEffect(() => {
+    const signal = nextSignal();
+    const loadQueue = async () => {
+      setLoading(true);
+      try {
+        const response = await questionService.getAdminQueue(
+          { status: statusFilter, page, limit: PAGE_SIZE },
+          { signal }
+        );
+        if (response.success && response.data) {
+          const loaded = response.data.questions || [];
+          setQuestions(loaded);
+          setPagination(response.data.pagination || null);
+          setDrafts(Object.fromEntries(loaded.map(item => [item.id, item.answer || ''])));
+          setError(null);
+        } else {
+          setError(response.message || 'Failed to fetch questions');
+        }
+        setLoading(false);
+      } catch {
+        // Aborted by a newer filter or page
+      }
+    };
+
+    loadQueue();
+  }, [statusFilter, page, nextSignal]);
+
+  const handleAnswer = async (question: ProductQuestion) => {
+    const answer = (drafts[question.id] || '').trim();
+    if (!answer) return;
+
+    setUpdating(current => [...current, question.id]);
+    const response = await questionService.answerQuestion(question.id, answer);
+    setUpdating(current => current.filter(id => id !== question.id));
+
+    if (!response.success) {
+      setError(response.message || 'Failed to save answer');
+      return;
+    }
+
+    setError(null);
+    if (statusFilter === 'unanswered') {
+      // Answered questions leave the unanswered queue
+      setQuestions(current => current.filter(item => item.id !== question.id));
+    } else {
+      const updated = response.data?.question || { ...question, answer };
+      setQuestions(current => current.map(item => (item.id === question.id ? updated : item)));
+    }
+  };
+
+  const handleStatusFilterChange = (status: QuestionStatus) => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Customer Questions</h1>
+        <p className="text-gray-600 mt-2">
+          Answer product questions; answers are published on the product page
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-6">
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600">
+            {pagination?.totalItems ?? questions.length} {statusFilter} {(pagination?.totalItems ?? questions.length) === 1 ? 'question' : 'questions'}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Filter className="w-4 h-4 text-gray-500" />
+            <select
+              value={statusFilter}
+              onChange={(e) => handleStatusFilterChange(e.target.value as QuestionStatus)}
+              className="rounded-lg border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+            >
+              <option value="unanswered">Unanswered</option>
+              <option value="answered">Answered</option>
+            </select>
+          </div>
+        </div>
+        {error && (
+          <p className="text-sm text-danger-600 mt-4">{error}</p>
+        )}
+      </Card>
+
+      {/* Queue */}
+      {loading && questions.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading questions...</p>
+        </div>
+      ) : questions.length === 0 ? (
+        <Card className="p-12 text-center">
+          <HelpCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            All caught up
+          </h3>
+          <p className="text-gray-500">
+            There are no {statusFilter} questions right now.
+          </p>
+        </Card>
+      ) : (
+        <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+          {questions.map((question, index) => (
+            <motion.div
+              key={question.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <Card className="p-6 space-y-4">
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-3">
+                    <h3 className="font-semibold text-gray-900">{question.question}</h3>
+                    <Badge variant={question.answer ? 'success' : 'warning'} size="sm">
+                      {question.answer ? 'Answered' : 'Unanswered'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {question.userName} on{' '}
+                    <Link to={`/product/${question.productId}`} className="text-primary-600 hover:text-primary-700">
+                      {question.productName || 'product'}
+                    </Link>
+                    {' · '}{formatDate(question.createdAt)}
+                  </p>
+                </div>
+
+                <div className="space-y-3">
+                  <textarea
+                    value={drafts[question.id] || ''}
+                    onChange={(e) => setDrafts(current => ({ ...current, [question.id]: e.target.value }))}
+                    placeholder="Write an answer..."
+                    aria-label={`Answer to: ${question.question}`}
+                    className="block w-full rounded-xl border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+                    rows={3}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => handleAnswer(question)}
+                      disabled={!(drafts[question.id] || '').trim()}
+                      loading={updating.includes(question.id)}
+                    >
+                      <Send className="w-4 h-4 mr-1" />
+                      {question.answer ? 'Update Answer' : 'Publish Answer'}
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            </motion.div>
+          ))}
+
+          {pagination && (
+            <Pagination
+              currentPage={pagination.currentPage}
+              totalPages={pagination.totalPages}
+              onPageChange={setPage}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionQueuePage;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { Check, X, Filter, MessageSquare, CheckCircle } from 'lucide-react';
+import { Review } from '../../store';
+import { Pagination as PaginationInfo } from '../../config/api';
+import reviewService from '../../services/reviewService';
+import useAbortSignal from '../../hooks/useAbortSignal';
+import { formatDate } from '../../utils/format';
+import Button from '../../components/ui/Button';
+import Card from '../../components/ui/Card';
+import Badge from '../../components/ui/Badge';
+import Pagination from '../../components/ui/Pagination';
+import StarRating from '../../components/ui/StarRating';
+
+const PAGE_SIZE = 10;
+
+const getStatusColor = (status: Review['status']) => {
+  switch (status) {
+    case 'approved':
+      return 'success';
+    case 'rejected':
+      return 'danger';
+    default:
+      return 'warning';
+  }
+};
+
+const ReviewModerationPage: React.FC = () => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [statusFilter, setStatusFilter] = useState<Review['status']>('pending');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Reviews with a moderation request in flight
+  const [updating, setUpdating] = useState<string[]>([]);
+  const nextSignal = useAbortSignal();
+
+  useEffect(() => {
+    const signal = nextSignal();
+    const loadQueue = async () => {
+      setLoading(true);
+      try {
+        const response = await reviewService.getModerationQueue(
+          { status: statusFilter, page, limit: PAGE_SIZE },
+          { signal }
+        );
+        if (response.success && response.data) {
+          setReviews(response.data.reviews || []);
+          setPagination(response.data.pagination || null);
+          setError(null);
+        } else {
+          setError(response.message || 'Failed to fetch reviews');
+        }
+        setLoading(false);
+      } catch {
+        // Aborted by a newer filter or page
+      }
+    };
+
+    loadQueue();
+  }, [statusFilter, page, nextSignal]);
+
+  const handleModerate = async (review: Review, status: Review['status']) => {
+    setUpdating(current => [...current, review.id]);
+    const response = await reviewService.moderateReview(review.id, status);
+    setUpdating(current => current.filter(id => id !== review.id));
+
+    if (response.success) {
+      // Moderated reviews leave the current queue
+      setReviews(current => current.filter(item => item.id !== review.id));
+      setError(null);
+    } else {
+      setError(response.message || 'Failed to update review');
+    }
+  };
+
+  const handleStatusFilterChange = (status: Review['status']) => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Review Moderation</h1>
+        <p className="text-gray-600 mt-2">
+          Approve or reject customer reviews before they appear on the store
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-6">
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600">
+            {pagination?.totalItems ?? reviews.length} {statusFilter} {(pagination?.totalItems ?? reviews.length) === 1 ? 'review' : 'reviews'}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Filter className="w-4 h-4 text-gray-500" />
+            <select
+              value={statusFilter}
+              onChange={(e) => handleStatusFilterChange(e.target.value as Review['status'])}
+              className="rounded-lg border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+            >
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Rejected</option>
+            </select>
+          </div>
+        </div>
+        {error && (
+          <p className="text-sm text-danger-600 mt-4">{error}</p>
+        )}
+      </Card>
+
+      {/* Queue */}
+      {loading && reviews.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading reviews...</p>
+        </div>
+      ) : reviews.length === 0 ? (
+        <Card className="p-12 text-center">
+          <MessageSquare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            Nothing to review
+          </h3>
+          <p className="text-gray-500">
+            There are no {statusFilter} reviews right now.
+          </p>
+        </Card>
+      ) : (
+        <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+          {reviews.map((review, index) => (
+            <motion.div
+              key={review.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <Card className="p-6">
+                <div className="flex flex-col lg:flex-row lg:items-start gap-6">
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center space-x-3">
+                      <StarRating value={review.rating} size="sm" />
+                      <h3 className="font-semibold text-gray-900">{review.title}</h3>
+                      <Badge variant={getStatusColor(review.status)} size="sm" className="capitalize">
+                        {review.status}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {review.userName} on{' '}
+                      <Link to={`/product/${review.productId}`} className="text-primary-600 hover:text-primary-700">
+                        {review.productName || 'product'}
+                      </Link>
+                      {' · '}{formatDate(review.createdAt)}
+                      {review.verifiedPurchase && (
+                        <span className="inline-flex items-center ml-2 text-success-600">
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Verified purchase
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-gray-700 whitespace-pre-line">{review.body}</p>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {review.status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        variant="success"
+                        onClick={() => handleModerate(review, 'approved')}
+                        disabled={updating.includes(review.id)}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    {review.status !== 'rejected' && (
+                      <Button
+                        size="sm"
+                        variant="danger"
+                        onClick={() => handleModerate(review, 'rejected')}
+                        disabled={updating.includes(review.id)}
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            </motion.div>
+          ))}
+
+          {pagination && (
+            <Pagination
+              currentPage={pagination.currentPage}
+              totalPages={pagination.totalPages}
+              onPageChange={setPage}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewModerationPage;
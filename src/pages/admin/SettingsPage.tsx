@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Settings, 
@@ -12,15 +12,35 @@ import {
   Save,
   Upload,
   Eye,
-  EyeOff
+  EyeOff,
+  Percent,
+  Plus,
+  X
 } from 'lucide-react';
+import { PricingSettings, ShippingZone, TaxRate, useProductStore, useSettingsStore } from '../../store';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import Card from '../../components/ui/Card';
 
+const cellInputClass =
+  'block w-full rounded-lg border-gray-300 text-sm focus:border-primary-500 focus:ring-primary-500 px-2 py-1.5';
+
+// Rates are stored as fractions and edited as percentages
+const toPercent = (rate: number) => Number((rate * 100).toFixed(4));
+
+// The form fields saved as the store's pricing settings
+const toPricingFields = ({ taxRate, ...pricing }: PricingSettings) => ({
+  ...pricing,
+  taxRatePercent: toPercent(taxRate),
+});
+
 const SettingsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('general');
   const [showApiKey, setShowApiKey] = useState(false);
+  const { pricing, fetchPricing, updatePricing } = useSettingsStore();
+  const { categories, fetchCategories } = useProductStore();
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   
   const [settings, setSettings] = useState({
     // General Settings
@@ -41,10 +61,8 @@ const SettingsPage: React.FC = () => {
     stripeSecretKey: 'sk_test_...',
     paypalEnabled: false,
     
-    // Shipping Settings
-    freeShippingThreshold: 50,
-    standardShippingRate: 9.99,
-    expressShippingRate: 19.99,
+    // Shipping and Tax Settings
+    ...toPricingFields(pricing),
     
     // Security Settings
     twoFactorAuth: false,
@@ -57,13 +75,81 @@ const SettingsPage: React.FC = () => {
     darkMode: false,
   });
 
+  useEffect(() => {
+    fetchPricing();
+    fetchCategories();
+  }, [fetchPricing, fetchCategories]);
+
+  // Show the server's pricing once it has loaded or been saved
+  useEffect(() => {
+    setSettings(prev => ({ ...prev, ...toPricingFields(pricing) }));
+  }, [pricing]);
+
   const handleInputChange = (key: string, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
-  const handleSave = () => {
-    // In a real app, save to backend
-    console.log('Saving settings:', settings);
+  const updateTaxRate = (id: string, changes: Partial<TaxRate>) => {
+    handleInputChange('taxRates', settings.taxRates.map(rate => (rate.id === id ? { ...rate, ...changes } : rate)));
+  };
+
+  const addTaxRate = () => {
+    handleInputChange('taxRates', [
+      ...settings.taxRates,
+      { id: crypto.randomUUID(), name: '', country: 'United States', state: '', zipPrefix: '', rate: 0 },
+    ]);
+  };
+
+  const updateShippingZone = (id: string, changes: Partial<ShippingZone>) => {
+    handleInputChange('shippingZones', settings.shippingZones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  const addShippingZone = () => {
+    handleInputChange('shippingZones', [
+      ...settings.shippingZones,
+      { id: crypto.randomUUID(), name: '', countries: [], surcharge: 0, extraDays: 0 },
+    ]);
+  };
+
+  const toggleTaxExemptCategory = (category: string, exempt: boolean) => {
+    handleInputChange('taxExemptCategories', exempt
+      ? [...settings.taxExemptCategories, category]
+      : settings.taxExemptCategories.filter(name => name !== category));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveMessage(null);
+    const error = await updatePricing({
+      freeShippingThreshold: settings.freeShippingThreshold,
+      standardShippingRate: settings.standardShippingRate,
+      expressShippingRate: settings.expressShippingRate,
+      standardDelivery: settings.standardDelivery,
+      expressDelivery: settings.expressDelivery,
+      localPickupEnabled: settings.localPickupEnabled,
+      pickupAddress: settings.pickupAddress.trim(),
+      pickupReadyDays: settings.pickupReadyDays,
+      includedWeightKg: settings.includedWeightKg,
+      weightRatePerKg: settings.weightRatePerKg,
+      shippingZones: settings.shippingZones.map(zone => ({
+        ...zone,
+        name: zone.name.trim(),
+        countries: zone.countries.map(country => country.trim()).filter(Boolean),
+      })),
+      taxRate: settings.taxRatePercent / 100,
+      // Blank state and prefix fields mean "any"
+      taxRates: settings.taxRates.map(rate => ({
+        ...rate,
+        name: rate.name.trim() || [rate.state, rate.zipPrefix].filter(Boolean).join(' ') || rate.country,
+        state: rate.state?.trim() || undefined,
+        zipPrefix: rate.zipPrefix?.trim() || undefined,
+      })),
+      taxExemptCategories: settings.taxExemptCategories,
+    });
+    setSaving(false);
+    setSaveMessage(error
+      ? { type: 'error', text: error.message }
+      : { type: 'success', text: 'Settings saved' });
   };
 
   const tabs = [
@@ -71,6 +157,7 @@ const SettingsPage: React.FC = () => {
     { id: 'email', label: 'Email', icon: Mail },
     { id: 'payment', label: 'Payment', icon: CreditCard },
     { id: 'shipping', label: 'Shipping', icon: Truck },
+    { id: 'tax', label: 'Tax', icon: Percent },
     { id: 'security', label: 'Security', icon: Shield },
     { id: 'appearance', label: 'Appearance', icon: Globe },
   ];
@@ -85,10 +172,17 @@ const SettingsPage: React.FC = () => {
             Configure your store settings and preferences
           </p>
         </div>
-        <Button onClick={handleSave}>
-          <Save className="w-5 h-5 mr-2" />
-          Save Changes
-        </Button>
+        <div className="flex items-center space-x-4">
+          {saveMessage && (
+            <p className={`text-sm ${saveMessage.type === 'error' ? 'text-danger-600' : 'text-success-600'}`}>
+              {saveMessage.text}
+            </p>
+          )}
+          <Button onClick={handleSave} loading={saving}>
+            <Save className="w-5 h-5 mr-2" />
+            Save Changes
+          </Button>
+        </div>
       </div>
 
       <div className="grid lg:grid-cols-4 gap-8">
@@ -309,6 +403,326 @@ const SettingsPage: React.FC = () => {
                       onChange={(e) => handleInputChange('expressShippingRate', Number(e.target.value))}
                     />
                   </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <Input
+                      label="Standard Min Days"
+                      type="number"
+                      min="0"
+                      value={settings.standardDelivery.minDays}
+                      onChange={(e) => handleInputChange('standardDelivery', { ...settings.standardDelivery, minDays: Number(e.target.value) })}
+                    />
+                    <Input
+                      label="Standard Max Days"
+                      type="number"
+                      min="0"
+                      value={settings.standardDelivery.maxDays}
+                      onChange={(e) => handleInputChange('standardDelivery', { ...settings.standardDelivery, maxDays: Number(e.target.value) })}
+                    />
+                    <Input
+                      label="Express Min Days"
+                      type="number"
+                      min="0"
+                      value={settings.expressDelivery.minDays}
+                      onChange={(e) => handleInputChange('expressDelivery', { ...settings.expressDelivery, minDays: Number(e.target.value) })}
+                    />
+                    <Input
+                      label="Express Max Days"
+                      type="number"
+                      min="0"
+                      value={settings.expressDelivery.maxDays}
+                      onChange={(e) => handleInputChange('expressDelivery', { ...settings.expressDelivery, maxDays: Number(e.target.value) })}
+                    />
+                  </div>
+
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="font-medium text-gray-900">Weight Surcharge</h3>
+                      <p className="text-sm text-gray-500">
+                        Standard and express shipping add the rate for every started kilogram over the included weight
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <Input
+                        label="Included Weight (kg)"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={settings.includedWeightKg}
+                        onChange={(e) => handleInputChange('includedWeightKg', Number(e.target.value))}
+                      />
+                      <Input
+                        label="Rate per Extra kg ($)"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={settings.weightRatePerKg}
+                        onChange={(e) => handleInputChange('weightRatePerKg', Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-medium text-gray-900">Local Pickup</h3>
+                        <p className="text-sm text-gray-500">Let customers collect their order for free</p>
+                      </div>
+                      <label className="relative inline-flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="sr-only peer"
+                          checked={settings.localPickupEnabled}
+                          onChange={(e) => handleInputChange('localPickupEnabled', e.target.checked)}
+                        />
+                        <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-600"></div>
+                      </label>
+                    </div>
+                    {settings.localPickupEnabled && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                          <Input
+                            label="Pickup Address"
+                            value={settings.pickupAddress}
+                            onChange={(e) => handleInputChange('pickupAddress', e.target.value)}
+                          />
+                        </div>
+                        <Input
+                          label="Ready After (days)"
+                          type="number"
+                          min="0"
+                          value={settings.pickupReadyDays}
+                          onChange={(e) => handleInputChange('pickupReadyDays', Number(e.target.value))}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-medium text-gray-900">Shipping Zones</h3>
+                        <p className="text-sm text-gray-500">
+                          Add a surcharge and extra delivery days when shipping to the listed countries
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={addShippingZone}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Zone
+                      </Button>
+                    </div>
+
+                    {settings.shippingZones.length > 0 && (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              <th className="py-2 pr-2">Name</th>
+                              <th className="py-2 pr-2">Countries</th>
+                              <th className="py-2 pr-2">Surcharge ($)</th>
+                              <th className="py-2 pr-2">Extra Days</th>
+                              <th className="py-2" />
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {settings.shippingZones.map(zone => (
+                              <tr key={zone.id}>
+                                <td className="py-2 pr-2 min-w-[8rem]">
+                                  <input
+                                    value={zone.name}
+                                    onChange={(e) => updateShippingZone(zone.id, { name: e.target.value })}
+                                    placeholder="International"
+                                    aria-label="Name"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2 pr-2 min-w-[12rem]">
+                                  <input
+                                    value={zone.countries.join(', ')}
+                                    onChange={(e) => updateShippingZone(zone.id, { countries: e.target.value.split(',').map(country => country.trimStart()) })}
+                                    placeholder="Canada, United Kingdom"
+                                    aria-label="Countries"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2 pr-2 min-w-[5rem]">
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={zone.surcharge}
+                                    onChange={(e) => updateShippingZone(zone.id, { surcharge: parseFloat(e.target.value) || 0 })}
+                                    aria-label="Surcharge"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2 pr-2 min-w-[5rem]">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={zone.extraDays}
+                                    onChange={(e) => updateShippingZone(zone.id, { extraDays: parseInt(e.target.value, 10) || 0 })}
+                                    aria-label="Extra days"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2">
+                                  <button
+                                    onClick={() => handleInputChange('shippingZones', settings.shippingZones.filter(item => item.id !== zone.id))}
+                                    aria-label="Remove zone"
+                                    className="p-1 text-gray-400 hover:text-danger-500 transition-colors"
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {activeTab === 'tax' && (
+              <Card className="p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-6">
+                  Tax Settings
+                </h2>
+                <div className="space-y-8">
+                  <div className="md:w-1/3">
+                    <Input
+                      label="Default Tax Rate (%)"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={settings.taxRatePercent}
+                      onChange={(e) => handleInputChange('taxRatePercent', Number(e.target.value))}
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      Charged when no regional rate matches the shipping address
+                    </p>
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-medium text-gray-900">Regional Rates</h3>
+                        <p className="text-sm text-gray-500">
+                          Every rate matching the address is charged, so a state rate and a local ZIP rate add up.
+                          Leave State or ZIP Prefix blank to cover the whole country or state.
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={addTaxRate}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Rate
+                      </Button>
+                    </div>
+
+                    {settings.taxRates.length > 0 && (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              <th className="py-2 pr-2">Name</th>
+                              <th className="py-2 pr-2">Country</th>
+                              <th className="py-2 pr-2">State</th>
+                              <th className="py-2 pr-2">ZIP Prefix</th>
+                              <th className="py-2 pr-2">Rate (%)</th>
+                              <th className="py-2" />
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {settings.taxRates.map(rate => (
+                              <tr key={rate.id}>
+                                <td className="py-2 pr-2 min-w-[10rem]">
+                                  <input
+                                    value={rate.name}
+                                    onChange={(e) => updateTaxRate(rate.id, { name: e.target.value })}
+                                    placeholder="California State Tax"
+                                    aria-label="Name"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2 pr-2">
+                                  <select
+                                    value={rate.country}
+                                    onChange={(e) => updateTaxRate(rate.id, { country: e.target.value })}
+                                    aria-label="Country"
+                                    className={cellInputClass}
+                                  >
+                                    <option value="United States">United States</option>
+                                    <option value="Canada">Canada</option>
+                                    <option value="United Kingdom">United Kingdom</option>
+                                  </select>
+                                </td>
+                                <td className="py-2 pr-2 min-w-[6rem]">
+                                  <input
+                                    value={rate.state || ''}
+                                    onChange={(e) => updateTaxRate(rate.id, { state: e.target.value })}
+                                    placeholder="Any"
+                                    aria-label="State"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2 pr-2 min-w-[6rem]">
+                                  <input
+                                    value={rate.zipPrefix || ''}
+                                    onChange={(e) => updateTaxRate(rate.id, { zipPrefix: e.target.value })}
+                                    placeholder="Any"
+                                    aria-label="ZIP prefix"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2 pr-2 min-w-[5rem]">
+                                  <input
+                                    type="number"
+                                    step="0.001"
+                                    min="0"
+                                    value={toPercent(rate.rate)}
+                                    onChange={(e) => updateTaxRate(rate.id, { rate: (parseFloat(e.target.value) || 0) / 100 })}
+                                    aria-label="Rate"
+                                    className={cellInputClass}
+                                  />
+                                </td>
+                                <td className="py-2">
+                                  <button
+                                    onClick={() => handleInputChange('taxRates', settings.taxRates.filter(item => item.id !== rate.id))}
+                                    aria-label="Remove rate"
+                                    className="p-1 text-gray-400 hover:text-danger-500 transition-colors"
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="font-medium text-gray-900">Tax-Exempt Categories</h3>
+                      <p className="text-sm text-gray-500">Products in these categories are never taxed</p>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {categories.map(category => (
+                        <label key={category.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={settings.taxExemptCategories.includes(category.name)}
+                            onChange={(e) => toggleTaxExemptCategory(category.name, e.target.checked)}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span>{category.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               </Card>
             )}
@@ -6,6 +6,17 @@ import { useAuthStore } from '../../store';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import Card from '../../components/ui/Card';
+import Form from '../../components/ui/Form';
+import { ApiError, FieldErrors } from '../../config/api';
+
+const getLoginErrorMessage = (error: ApiError | null): string => {
+  if (!error) return 'Invalid email or password';
+  if (error.isUnauthorized) return 'Invalid email or password';
+  if (error.isNetworkError) return 'We couldn\'t reach the server. Check your connection and try again.';
+  if (error.status === 429) return 'Too many sign-in attempts. Please wait a moment and try again.';
+  if (error.hasFieldErrors) return 'Please correct the highlighted fields.';
+  return error.message;
+};
 
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -13,6 +24,7 @@ const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const { login } = useAuthStore();
   const navigate = useNavigate();
@@ -21,13 +33,16 @@ const LoginPage: React.FC = () => {
     e.preventDefault();
     setLoading(true);
     setError('');
+    setFieldErrors({});
 
     try {
       const success = await login(email, password);
       if (success) {
         navigate('/');
       } else {
-        setError('Invalid email or password');
+        const apiError = useAuthStore.getState().error;
+        setFieldErrors(apiError?.fieldErrors || {});
+        setError(getLoginErrorMessage(apiError));
       }
     } catch (err) {
       setError('An error occurred. Please try again.');
@@ -71,7 +86,7 @@ const LoginPage: React.FC = () => {
             </div>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <Form onSubmit={handleSubmit} errors={fieldErrors} className="space-y-6">
             {error && (
               <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg text-danger-700 text-sm">
                 {error}
@@ -80,6 +95,7 @@ const LoginPage: React.FC = () => {
 
             <Input
               label="Email address"
+              name="email"
               type="email"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
@@ -90,6 +106,7 @@ const LoginPage: React.FC = () => {
             <div className="relative">
               <Input
                 label="Password"
+                name="password"
                 type={showPassword ? 'text' : 'password'}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
@@ -129,7 +146,7 @@ const LoginPage: React.FC = () => {
             >
               Sign In
             </Button>
-          </form>
+          </Form>
 
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
@@ -6,6 +6,16 @@ import { useAuthStore } from '../../store';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import Card from '../../components/ui/Card';
+import Form from '../../components/ui/Form';
+import { ApiError, FieldErrors } from '../../config/api';
+
+const getRegisterErrorMessage = (error: ApiError | null): string => {
+  if (!error) return 'Registration failed. Please try again.';
+  if (error.isConflict) return 'An account with this email already exists. Try signing in instead.';
+  if (error.isNetworkError) return 'We couldn\'t reach the server. Check your connection and try again.';
+  if (error.hasFieldErrors) return 'Please correct the highlighted fields.';
+  return error.message;
+};
 
 const RegisterPage: React.FC = () => {
   const [name, setName] = useState('');
@@ -16,6 +26,7 @@ const RegisterPage: React.FC = () => {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const { register } = useAuthStore();
   const navigate = useNavigate();
@@ -24,6 +35,7 @@ const RegisterPage: React.FC = () => {
     e.preventDefault();
     setLoading(true);
     setError('');
+    setFieldErrors({});
 
     if (password !== confirmPassword) {
       setError('Passwords do not match');
@@ -42,7 +54,9 @@ const RegisterPage: React.FC = () => {
       if (success) {
         navigate('/');
       } else {
-        setError('Registration failed. Please try again.');
+        const apiError = useAuthStore.getState().error;
+        setFieldErrors(apiError?.fieldErrors || {});
+        setError(getRegisterErrorMessage(apiError));
       }
     } catch (err) {
       setError('An error occurred. Please try again.');
@@ -77,7 +91,7 @@ const RegisterPage: React.FC = () => {
             </p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
+          <Form onSubmit={handleSubmit} errors={fieldErrors} className="space-y-6">
             {error && (
               <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg text-danger-700 text-sm">
                 {error}
@@ -86,6 +100,7 @@ const RegisterPage: React.FC = () => {
 
             <Input
               label="Full name"
+              name="name"
               type="text"
               value={name}
               onChange={(e) => setName(e.target.value)}
@@ -95,6 +110,7 @@ const RegisterPage: React.FC = () => {
 
             <Input
               label="Email address"
+              name="email"
               type="email"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
@@ -105,6 +121,7 @@ const RegisterPage: React.FC = () => {
             <div className="relative">
               <Input
                 label="Password"
+                name="password"
                 type={showPassword ? 'text' : 'password'}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
@@ -164,7 +181,7 @@ const RegisterPage: React.FC = () => {
             >
               Create Account
             </Button>
-          </form>
+          </Form>
 
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
@@ -1,25 +1,17 @@
-import api from '../config/api';
+import api, { ApiError, AuthPayload } from '../config/api';
 import { User } from '../store';
 
 export interface AuthResponse {
   success: boolean;
   message?: string;
-  data?: {
-    user: User;
-    token: string;
-  };
-  user?: User;
-  token?: string;
+  data?: AuthPayload;
+  error?: ApiError;
 }
 
 export const authService = {
   async login(email: string, password: string): Promise<AuthResponse> {
     try {
-      const response = await api.auth.login(email, password);
-      
-      // Handle different response formats
-      const token = response.data?.token || response.token;
-      const user = response.data?.user || response.user;
+      const { user, token } = await api.auth.login(email, password);
       
       if (token) {
         localStorage.setItem('auth-token', token);
@@ -29,20 +21,19 @@ export const authService = {
         success: true,
         data: { user, token }
       };
-    } catch (error: any) {
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Login failed');
       return {
         success: false,
-        message: error.message || 'Login failed'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
 
   async register(name: string, email: string, password: string): Promise<AuthResponse> {
     try {
-      const response = await api.auth.register(name, email, password);
-      
-      const token = response.data?.token || response.token;
-      const user = response.data?.user || response.user;
+      const { user, token } = await api.auth.register(name, email, password);
       
       if (token) {
         localStorage.setItem('auth-token', token);
@@ -52,20 +43,22 @@ export const authService = {
         success: true,
         data: { user, token }
       };
-    } catch (error: any) {
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Registration failed');
       return {
         success: false,
-        message: error.message || 'Registration failed'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
 
   async getCurrentUser(): Promise<{ success: boolean; data?: { user: User } }> {
     try {
-      const response = await api.auth.getMe();
+      const user = await api.auth.getMe();
       return {
         success: true,
-        data: { user: response.data?.user || response.user || response }
+        data: { user }
       };
     } catch (error) {
       localStorage.removeItem('auth-token');
@@ -0,0 +1,52 @@
+import api, { ApiError, CallOptions, CartLineInput } from '../config/api';
+import { CartItem } from '../store';
+
+export interface CartResponse {
+  success: boolean;
+  items: CartItem[];
+  error?: ApiError;
+}
+
+const failure = (error: unknown, fallbackMessage: string): CartResponse => ({
+  success: false,
+  items: [],
+  error: ApiError.from(error, fallbackMessage),
+});
+
+export const toCartLines = (items: CartItem[]): CartLineInput[] =>
+  items.map(item => ({
+    productId: item.product.id,
+    ...(item.variant && { variantId: item.variant.id }),
+    quantity: item.quantity,
+  }));
+
+export const cartService = {
+  async getCart(options?: CallOptions): Promise<CartResponse> {
+    try {
+      const items = await api.cart.get(options);
+      return { success: true, items };
+    } catch (error) {
+      return failure(error, 'Failed to fetch cart');
+    }
+  },
+
+  async replaceCart(items: CartItem[]): Promise<CartResponse> {
+    try {
+      const saved = await api.cart.replace(toCartLines(items));
+      return { success: true, items: saved };
+    } catch (error) {
+      return failure(error, 'Failed to save cart');
+    }
+  },
+
+  async mergeCart(items: CartItem[]): Promise<CartResponse> {
+    try {
+      const merged = await api.cart.merge(toCartLines(items));
+      return { success: true, items: merged };
+    } catch (error) {
+      return failure(error, 'Failed to sync cart');
+    }
+  },
+};
+
+export default cartService;
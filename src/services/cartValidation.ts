@@ -0,0 +1,78 @@
+import type { CartIssue, CartItem, Product } from '../store';
+import { getCartLineId, getItemPrice } from './productVariants';
+
+// Checks cart lines against freshly loaded products. `latest` maps product
+// ids to the current product, or to null when the product no longer exists;
+// products missing from the map couldn't be loaded and are left untouched.
+
+export const issueKey = (issue: CartIssue) => `${issue.lineId}:${issue.type}`;
+
+// Units of the line's product or variant that can still be bought
+export const getAvailableQuantity = (item: CartItem): number => {
+  if (item.variant) return Math.max(0, item.variant.stockCount);
+  return item.product.inStock ? Math.max(0, item.product.stockCount) : 0;
+};
+
+export const isSoldOut = (item: CartItem): boolean => getAvailableQuantity(item) === 0;
+
+export const reconcileCartItems = (
+  items: CartItem[],
+  latest: Map<string, Product | null>
+): { items: CartItem[]; issues: CartIssue[] } => {
+  const issues: CartIssue[] = [];
+  const reconciled: CartItem[] = [];
+
+  items.forEach(item => {
+    const lineId = getCartLineId(item);
+    const product = latest.get(item.product.id);
+    if (product === undefined) {
+      reconciled.push(item);
+      return;
+    }
+
+    const variant = item.variant && product?.variants?.find(entry => entry.id === item.variant!.id);
+    if (!product || (item.variant && !variant)) {
+      issues.push({ lineId, type: 'removed', productName: item.product.name });
+      return;
+    }
+
+    const next: CartItem = { ...item, product, ...(variant && { variant }) };
+    const previousPrice = getItemPrice(item);
+    const price = getItemPrice(next);
+    if (price !== previousPrice) {
+      issues.push({ lineId, type: 'price_changed', productName: product.name, previousPrice, price });
+    }
+
+    const available = getAvailableQuantity(next);
+    if (available === 0) {
+      issues.push({ lineId, type: 'sold_out', productName: product.name });
+    } else if (item.quantity > available) {
+      issues.push({
+        lineId,
+        type: 'quantity_reduced',
+        productName: product.name,
+        requestedQuantity: item.quantity,
+        availableQuantity: available,
+      });
+      next.quantity = available;
+    }
+
+    reconciled.push(next);
+  });
+
+  return { items: reconciled, issues };
+};
+
+// Keeps earlier notices the shopper hasn't dismissed, unless they no longer
+// apply, and lets a newer notice for the same line and kind replace an older one
+export const mergeCartIssues = (previous: CartIssue[], next: CartIssue[], items: CartItem[]): CartIssue[] => {
+  const nextKeys = new Set(next.map(issueKey));
+  const byLine = new Map(items.map(item => [getCartLineId(item), item]));
+  const stillApplies = (issue: CartIssue) => {
+    if (issue.type === 'removed') return true;
+    const item = byLine.get(issue.lineId);
+    if (!item) return false;
+    return issue.type !== 'sold_out' || isSoldOut(item);
+  };
+  return [...previous.filter(issue => !nextKeys.has(issueKey(issue)) && stillApplies(issue)), ...next];
+};
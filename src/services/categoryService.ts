@@ -1,56 +1,47 @@
-import api from '../config/api';
+import api, { ApiError, CallOptions, CategoryInput } from '../config/api';
 import { Category } from '../store';
 
 export interface CategoryResponse {
-  success?: boolean;
-  categories?: Category[];
-  data?: Category[];
-  pagination?: {
-    page: number;
-    limit: number;
-    total: number;
-    pages: number;
-  };
+  success: boolean;
+  categories: Category[];
 }
 
 export const categoryService = {
-  async getCategories(): Promise<CategoryResponse> {
+  async getCategories(options?: CallOptions): Promise<CategoryResponse> {
     try {
-      const response = await api.categories.getAll();
-      // Handle different response formats
-      if (response.categories) {
-        return response;
-      } else if (Array.isArray(response)) {
-        return { categories: response };
-      } else if (response.data) {
-        return { categories: response.data };
-      }
-      return { categories: [] };
+      const categories = await api.categories.getAll(options);
+      return { success: true, categories };
     } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
       console.error('Error fetching categories:', error);
-      return { categories: [] };
+      return { success: false, categories: [] };
     }
   },
 
-  async getCategoryById(id: string): Promise<{ success: boolean; data?: Category; category?: Category }> {
-    return api.categories.getById(id);
+  async getCategoryById(id: string, options?: CallOptions): Promise<{ success: boolean; data: Category }> {
+    const category = await api.categories.getById(id, options);
+    return { success: true, data: category };
   },
 
-  async getCategoryBySlug(slug: string): Promise<{ success: boolean; data?: Category; category?: Category }> {
-    return api.categories.getBySlug(slug);
+  async getCategoryBySlug(slug: string, options?: CallOptions): Promise<{ success: boolean; data: Category }> {
+    const category = await api.categories.getBySlug(slug, options);
+    return { success: true, data: category };
   },
 
-  async createCategory(categoryData: Omit<Category, 'id'>): Promise<{ success: boolean; data: { category: Category } }> {
-    return api.categories.create(categoryData);
+  async createCategory(categoryData: CategoryInput): Promise<{ success: boolean; data: { category: Category } }> {
+    const category = await api.categories.create(categoryData);
+    return { success: true, data: { category } };
   },
 
-  async updateCategory(id: string, categoryData: Partial<Category>): Promise<{ success: boolean; data: { category: Category } }> {
-    return api.categories.update(id, categoryData);
+  async updateCategory(id: string, categoryData: Partial<CategoryInput>): Promise<{ success: boolean; data: { category: Category } }> {
+    const category = await api.categories.update(id, categoryData);
+    return { success: true, data: { category } };
   },
 
   async deleteCategory(id: string): Promise<{ success: boolean; message: string }> {
-    return api.categories.delete(id);
+    const { message } = await api.categories.delete(id);
+    return { success: true, message };
   },
 };
 
-export default categoryService;
\ No newline at end of file
+export default categoryService;
@@ -0,0 +1,132 @@
+import type { CheckoutDetails } from '../store';
+import type { FieldErrors } from '../config/api';
+
+// The checkout wizard's steps and the rules each step's fields must pass
+// before the customer can move on.
+
+export type CheckoutStepId = 'contact' | 'shipping' | 'delivery' | 'payment' | 'review';
+
+export const CHECKOUT_STEPS: { id: CheckoutStepId; label: string }[] = [
+  { id: 'contact', label: 'Contact' },
+  { id: 'shipping', label: 'Shipping' },
+  { id: 'delivery', label: 'Delivery' },
+  { id: 'payment', label: 'Payment' },
+  { id: 'review', label: 'Review' },
+];
+
+// Card fields as typed. They are read from the form when the payment step
+// is submitted and handed straight to the payment provider, never kept in state.
+export interface PaymentDetails {
+  cardNumber: string;
+  expiryDate: string;
+  cvv: string;
+  cardName: string;
+}
+
+export const PAYMENT_FIELDS: (keyof PaymentDetails)[] = ['cardNumber', 'expiryDate', 'cvv', 'cardName'];
+
+export type CheckoutValues = CheckoutDetails & Partial<PaymentDetails>;
+
+// A rule returns the message to show, or null when the value passes
+type FieldRule = (value: string, now: Date) => string | null;
+
+type StepSchema = Partial<Record<keyof CheckoutValues, FieldRule[]>>;
+
+const required = (message: string): FieldRule => value => (value.trim() ? null : message);
+
+const matches = (pattern: RegExp, message: string): FieldRule => value =>
+  !value.trim() || pattern.test(value.trim()) ? null : message;
+
+const digitsOf = (value: string) => value.replace(/[\s-]/g, '');
+
+// The Luhn checksum every card number carries
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const validCardNumber: FieldRule = value => {
+  const digits = digitsOf(value);
+  if (!digits) return null;
+  return /^\d{12,19}$/.test(digits) && passesLuhn(digits) ? null : 'Check your card number';
+};
+
+// MM/YY, good until the end of that month
+const notExpired: FieldRule = (value, now) => {
+  if (!value.trim()) return null;
+  const match = value.trim().match(/^(\d{2})\s*\/\s*(\d{2})$/);
+  if (!match || Number(match[1]) < 1 || Number(match[1]) > 12) return 'Use the format MM/YY';
+  const expiresAt = new Date(2000 + Number(match[2]), Number(match[1]), 1);
+  return expiresAt > now ? null : 'This card has expired';
+};
+
+const STEP_SCHEMAS: Record<CheckoutStepId, StepSchema> = {
+  contact: {
+    firstName: [required('Enter your first name')],
+    lastName: [required('Enter your last name')],
+    email: [required('Enter your email'), matches(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Enter a valid email address')],
+    phone: [
+      required('Enter your phone number'),
+      value => (value.replace(/\D/g, '').length >= 7 ? null : 'Enter a valid phone number'),
+    ],
+  },
+  shipping: {
+    address: [required('Enter your street address')],
+    city: [required('Enter your city')],
+    state: [required('Enter your state')],
+    zipCode: [required('Enter your ZIP code'), matches(/^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/, 'Enter a valid ZIP code')],
+    country: [required('Choose a country')],
+  },
+  // Any offered method will do; an unavailable one falls back to standard
+  delivery: {},
+  payment: {
+    cardNumber: [required('Enter your card number'), validCardNumber],
+    expiryDate: [required('Enter the expiry date'), notExpired],
+    cvv: [required('Enter the security code'), matches(/^\d{3,4}$/, 'Enter the 3 or 4 digit code')],
+    cardName: [required('Enter the name on the card')],
+  },
+  review: {},
+};
+
+export const isCheckoutStep = (value?: string): value is CheckoutStepId =>
+  CHECKOUT_STEPS.some(step => step.id === value);
+
+export const getStepIndex = (step: CheckoutStepId): number =>
+  CHECKOUT_STEPS.findIndex(entry => entry.id === step);
+
+// Errors keyed by field name, the first failing rule per field
+export const validateStep = (step: CheckoutStepId, values: CheckoutValues, now = new Date()): FieldErrors => {
+  const errors: FieldErrors = {};
+  for (const [field, rules] of Object.entries(STEP_SCHEMAS[step])) {
+    const value = String(values[field as keyof CheckoutValues] ?? '');
+    const message = rules?.map(rule => rule(value, now)).find(Boolean);
+    if (message) errors[field] = message;
+  }
+  return errors;
+};
+
+// The earliest step, before `step`, that isn't done yet. Opening a later
+// step's URL directly sends the customer back there. The payment step is done
+// once the card has been turned into a payment method.
+export const getFirstIncompleteStep = (
+  details: CheckoutDetails,
+  hasPaymentMethod: boolean,
+  step: CheckoutStepId = 'review'
+): CheckoutStepId | null => {
+  const earlier = CHECKOUT_STEPS.slice(0, getStepIndex(step));
+  const isDone = (id: CheckoutStepId) =>
+    id === 'payment' ? hasPaymentMethod : Object.keys(validateStep(id, details)).length === 0;
+  return earlier.find(entry => !isDone(entry.id))?.id ?? null;
+};
+
+// The step that owns a field, for showing server-side errors where they apply
+export const getFieldStep = (field: string): CheckoutStepId | null =>
+  CHECKOUT_STEPS.find(entry => field in STEP_SCHEMAS[entry.id])?.id ?? null;
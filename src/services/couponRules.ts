@@ -0,0 +1,86 @@
+import type { CartItem, Coupon } from '../store';
+import { getSubtotal, roundCents } from './money';
+import { formatPrice } from '../utils/format';
+
+// Client copy of the coupon rules. The server decides when a code is applied
+// and again when the order is placed; these keep the cart's discount current
+// as lines change in between.
+
+export type CouponStatus = 'active' | 'inactive' | 'expired' | 'used_up';
+
+export interface CouponDiscount {
+  // Amount taken off the subtotal
+  amount: number;
+  freeShipping: boolean;
+}
+
+export const NO_DISCOUNT: CouponDiscount = { amount: 0, freeShipping: false };
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const matchesAny = (value: string, allowed?: string[]) =>
+  !allowed || allowed.length === 0 ||
+  allowed.some(entry => entry.trim().toLowerCase() === value.trim().toLowerCase());
+
+export const getCouponStatus = (coupon: Coupon, now = new Date()): CouponStatus => {
+  if (!coupon.active) return 'inactive';
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) return 'expired';
+  if (coupon.usageLimit !== undefined && coupon.usageCount >= coupon.usageLimit) return 'used_up';
+  return 'active';
+};
+
+// Lines the coupon's category and brand restrictions allow
+export const getEligibleItems = (coupon: Coupon, items: CartItem[]): CartItem[] =>
+  items.filter(item =>
+    matchesAny(item.product.category, coupon.categories) && matchesAny(item.product.brand, coupon.brands)
+  );
+
+// Why the coupon can't be used with these items, or null when it can.
+// The minimum spend counts the whole cart, not just the eligible lines.
+export const getCouponProblem = (coupon: Coupon, items: CartItem[], now = new Date()): string | null => {
+  switch (getCouponStatus(coupon, now)) {
+    case 'inactive':
+      return 'This code is no longer active.';
+    case 'expired':
+      return 'This code has expired.';
+    case 'used_up':
+      return 'This code has reached its usage limit.';
+  }
+
+  if (getEligibleItems(coupon, items).length === 0) {
+    return 'None of the items in your cart qualify for this code.';
+  }
+  const subtotal = getSubtotal(items);
+  if (coupon.minimumSpend && subtotal < coupon.minimumSpend) {
+    return `Add ${formatPrice(coupon.minimumSpend - subtotal)} more to use this code.`;
+  }
+  return null;
+};
+
+export const getCouponDiscount = (coupon: Coupon | null, items: CartItem[], now = new Date()): CouponDiscount => {
+  if (!coupon || getCouponProblem(coupon, items, now)) return NO_DISCOUNT;
+
+  const eligibleSubtotal = getSubtotal(getEligibleItems(coupon, items));
+  switch (coupon.type) {
+    case 'percentage':
+      return { amount: roundCents(eligibleSubtotal * Math.min(coupon.value, 100) / 100), freeShipping: false };
+    case 'fixed':
+      // Never more than the lines it applies to
+      return { amount: roundCents(Math.min(coupon.value, eligibleSubtotal)), freeShipping: false };
+    case 'free_shipping':
+      return { amount: 0, freeShipping: true };
+  }
+};
+
+export const describeCouponBenefit = (coupon: Coupon): string => {
+  if (coupon.type === 'percentage') return `${coupon.value}% off`;
+  if (coupon.type === 'fixed') return `${formatPrice(coupon.value)} off`;
+  return 'Free shipping';
+};
+
+// "15% off (Apple only)", "$10 off", "Free shipping"
+export const describeCoupon = (coupon: Coupon): string => {
+  const restrictions = [...(coupon.categories || []), ...(coupon.brands || [])];
+  const benefit = describeCouponBenefit(coupon);
+  return restrictions.length > 0 ? `${benefit} (${restrictions.join(', ')} only)` : benefit;
+};
@@ -0,0 +1,75 @@
+import api, { ApiError, CallOptions, CouponInput } from '../config/api';
+import { CartItem, Coupon } from '../store';
+import { toCartLines } from './cartService';
+
+export interface CouponResponse {
+  success: boolean;
+  data?: {
+    coupon?: Coupon;
+    coupons?: Coupon[];
+  };
+  message?: string;
+  error?: ApiError;
+}
+
+const failure = (error: unknown, fallbackMessage: string): CouponResponse => {
+  const apiError = ApiError.from(error, fallbackMessage);
+  return {
+    success: false,
+    message: apiError.message,
+    error: apiError,
+  };
+};
+
+export const couponService = {
+  async validateCoupon(code: string, items: CartItem[]): Promise<CouponResponse> {
+    try {
+      const coupon = await api.coupons.validate(code, toCartLines(items));
+      return { success: true, data: { coupon } };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to apply code');
+      // A missing code is the shopper's typo, not a server problem
+      const message = apiError.isNotFound ? "We don't recognise that code." : apiError.message;
+      return { success: false, message, error: apiError };
+    }
+  },
+
+  async getCoupons(options?: CallOptions): Promise<CouponResponse> {
+    try {
+      const coupons = await api.coupons.getAll(options);
+      return { success: true, data: { coupons } };
+    } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
+      return failure(error, 'Failed to fetch coupons');
+    }
+  },
+
+  async createCoupon(couponData: CouponInput): Promise<CouponResponse> {
+    try {
+      const coupon = await api.coupons.create(couponData);
+      return { success: true, data: { coupon } };
+    } catch (error) {
+      return failure(error, 'Failed to create coupon');
+    }
+  },
+
+  async updateCoupon(id: string, couponData: Partial<CouponInput>): Promise<CouponResponse> {
+    try {
+      const coupon = await api.coupons.update(id, couponData);
+      return { success: true, data: { coupon } };
+    } catch (error) {
+      return failure(error, 'Failed to update coupon');
+    }
+  },
+
+  async deleteCoupon(id: string): Promise<CouponResponse> {
+    try {
+      const { message } = await api.coupons.delete(id);
+      return { success: true, message };
+    } catch (error) {
+      return failure(error, 'Failed to delete coupon');
+    }
+  },
+};
+
+export default couponService;
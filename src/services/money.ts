@@ -0,0 +1,9 @@
+import type { CartItem } from '../store';
+import { getItemPrice } from './productVariants';
+
+// Cent arithmetic shared by the pricing, coupon, tax and shipping rules
+
+export const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getSubtotal = (items: CartItem[]): number =>
+  roundCents(items.reduce((total, item) => total + getItemPrice(item) * item.quantity, 0));
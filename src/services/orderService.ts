@@ -1,96 +1,99 @@
-import api from '../config/api';
+import api, { ApiError, CallOptions, CreateOrderData, Pagination } from '../config/api';
 import { Order, CartItem } from '../store';
 
-export interface CreateOrderData {
-  items: Array<{
-    product: string;
-    quantity: number;
-  }>;
-  shippingAddress: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    phone: string;
-    address: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
-  paymentMethod: string;
-}
+export type { CreateOrderData };
 
 export interface OrderResponse {
   success: boolean;
   data?: {
     order?: Order;
     orders?: Order[];
-    pagination?: {
-      currentPage: number;
-      totalPages: number;
-      totalOrders: number;
-    };
+    pagination?: Pagination;
   };
   message?: string;
+  error?: ApiError;
 }
 
 export const orderService = {
-  async createOrder(orderData: CreateOrderData): Promise<OrderResponse> {
+  // Pass the same `idempotencyKey` when retrying a checkout attempt so the
+  // server can't place the order twice
+  async createOrder(orderData: CreateOrderData, options?: CallOptions): Promise<OrderResponse> {
     try {
-      const response = await api.orders.create(orderData);
-      return response;
-    } catch (error: any) {
+      const order = await api.orders.create(orderData, options);
+      return { success: true, data: { order } };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to create order');
+      // A retry of a request the server already took: load the order it
+      // placed. Guests need the lookup token for that, and again for the
+      // confirmation page, so it is kept on the order.
+      if (apiError.isDuplicateRequest && apiError.existingId) {
+        const { lookupToken } = apiError;
+        const existing = await orderService.getOrderById(apiError.existingId, lookupToken, { signal: options?.signal });
+        const order = existing.data?.order;
+        return order && lookupToken && !order.lookupToken
+          ? { ...existing, data: { order: { ...order, lookupToken } } }
+          : existing;
+      }
       return {
         success: false,
-        message: error.message || 'Failed to create order'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
 
-  async getUserOrders(): Promise<OrderResponse> {
+  async getUserOrders(options?: CallOptions): Promise<OrderResponse> {
     try {
-      const response = await api.orders.getUserOrders();
-      return response;
-    } catch (error: any) {
+      const data = await api.orders.getUserOrders(undefined, options);
+      return { success: true, data };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to fetch orders');
       return {
         success: false,
-        message: error.message || 'Failed to fetch orders'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
 
-  async getOrderById(id: string): Promise<OrderResponse> {
+  async getOrderById(id: string, lookupToken?: string, options?: CallOptions): Promise<OrderResponse> {
     try {
-      const response = await api.orders.getById(id);
-      return response;
-    } catch (error: any) {
+      const order = await api.orders.getById(id, lookupToken, options);
+      return { success: true, data: { order } };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to fetch order');
       return {
         success: false,
-        message: error.message || 'Failed to fetch order'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
 
-  async getAllOrdersAdmin(): Promise<OrderResponse> {
+  async getAllOrdersAdmin(options?: CallOptions): Promise<OrderResponse> {
     try {
-      const response = await api.orders.getAllAdmin();
-      return response;
-    } catch (error: any) {
+      const data = await api.orders.getAllAdmin(options);
+      return { success: true, data };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to fetch orders');
       return {
         success: false,
-        message: error.message || 'Failed to fetch orders'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
 
-  async updateOrderStatus(id: string, status: string, trackingNumber?: string): Promise<OrderResponse> {
+  async updateOrderStatus(id: string, status: Order['status'], trackingNumber?: string): Promise<OrderResponse> {
     try {
-      const response = await api.orders.updateStatus(id, status, trackingNumber);
-      return response;
-    } catch (error: any) {
+      const order = await api.orders.updateStatus(id, status, trackingNumber);
+      return { success: true, data: { order } };
+    } catch (error) {
+      const apiError = ApiError.from(error, 'Failed to update order status');
       return {
         success: false,
-        message: error.message || 'Failed to update order status'
+        message: apiError.message,
+        error: apiError
       };
     }
   },
@@ -99,6 +102,7 @@ export const orderService = {
   convertCartItemsToOrderItems(cartItems: CartItem[]) {
     return cartItems.map(item => ({
       product: item.product.id,
+      ...(item.variant && { variant: item.variant.id }),
       quantity: item.quantity
     }));
   },
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  PaymentProvider,
+  assertPaymentProviderConfigured,
+  fakePaymentProvider,
+  getPaymentProvider,
+  registerPaymentProvider,
+} from './paymentProviders';
+
+const hostedProvider: PaymentProvider = {
+  name: 'hosted',
+  createPaymentMethod: async () => ({ id: 'pm_1', brand: 'Visa', last4: '4242', expMonth: 1, expYear: 2030 }),
+  confirmCardPayment: async () => {},
+};
+
+describe('payment providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('fails the startup check when no provider is configured', () => {
+    vi.stubEnv('VITE_PAYMENT_PROVIDER', '');
+
+    expect(() => assertPaymentProviderConfigured()).toThrow(/VITE_PAYMENT_PROVIDER is not set/);
+  });
+
+  it('fails the startup check for a provider that was never registered', () => {
+    vi.stubEnv('VITE_PAYMENT_PROVIDER', 'missing');
+
+    expect(() => assertPaymentProviderConfigured()).toThrow(/"missing"/);
+    expect(() => getPaymentProvider()).toThrow('Card payments are unavailable right now');
+  });
+
+  it('uses a provider registered by the app', () => {
+    registerPaymentProvider('hosted', hostedProvider);
+    vi.stubEnv('VITE_PAYMENT_PROVIDER', 'hosted');
+
+    expect(() => assertPaymentProviderConfigured()).not.toThrow();
+    expect(getPaymentProvider()).toBe(hostedProvider);
+  });
+
+  it('registers the fake provider in test builds', () => {
+    vi.stubEnv('VITE_PAYMENT_PROVIDER', 'fake');
+
+    expect(getPaymentProvider()).toBe(fakePaymentProvider);
+  });
+});
@@ -0,0 +1,144 @@
+import { ApiError } from '../config/api';
+import type { PaymentDetails } from './checkoutSteps';
+
+// Card payments go through a provider: it turns the card the customer typed
+// into a single-use payment method, then confirms the server's payment intent
+// with it. Only the payment method's id and display details ever reach the
+// rest of the app.
+
+// A tokenized card, safe to keep in state and show back to the customer
+export interface PaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+// An extra check the card issuer asks for, such as 3-D Secure
+export interface PaymentChallenge {
+  message: string;
+}
+
+// Resolves true once the customer has passed the challenge, false if they
+// gave up. Providers that show their own challenge screen may not call it.
+export type AuthenticatePayment = (challenge: PaymentChallenge) => Promise<boolean>;
+
+export interface PaymentProvider {
+  name: string;
+  // Rejects with an ApiError whose fieldErrors point at the bad card field
+  createPaymentMethod: (card: PaymentDetails) => Promise<PaymentMethod>;
+  // Rejects with a 402 ApiError when the card is declined or the challenge
+  // isn't passed
+  confirmCardPayment: (
+    clientSecret: string,
+    paymentMethodId: string,
+    authenticate: AuthenticatePayment
+  ) => Promise<void>;
+}
+
+const declined = (message: string, code = 'card_declined') =>
+  new ApiError(message, { status: 402, code, retryable: false });
+
+const getCardBrand = (digits: string): string => {
+  if (/^4/.test(digits)) return 'Visa';
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return 'Mastercard';
+  if (/^3[47]/.test(digits)) return 'American Express';
+  if (/^6/.test(digits)) return 'Discover';
+  return 'Card';
+};
+
+// Test cards understood by the fake provider; any other valid number is approved
+const FAKE_DECLINES: Record<string, string> = {
+  '4000000000000002': 'Your card was declined.',
+  '4000000000009995': 'Your card has insufficient funds.',
+  '4000000000000069': 'Your card has expired.',
+};
+const FAKE_CHALLENGE_CARD = '4000000000003220';
+
+const FAKE_LATENCY_MS = 400;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, FAKE_LATENCY_MS));
+
+// Cards tokenized by the fake provider, by payment method id. A hosted
+// provider keeps these on its side.
+const fakeCards = new Map<string, string>();
+
+// Runs entirely in the browser, for development and tests
+export const fakePaymentProvider: PaymentProvider = {
+  name: 'fake',
+
+  createPaymentMethod: async (card) => {
+    await delay();
+    const digits = card.cardNumber.replace(/[\s-]/g, '');
+    const [month, year] = card.expiryDate.split('/').map(part => Number(part.trim()));
+    if (!/^\d{12,19}$/.test(digits)) {
+      throw new ApiError('Your card number is incorrect.', {
+        status: 400,
+        code: 'invalid_number',
+        fieldErrors: { cardNumber: 'Your card number is incorrect.' },
+      });
+    }
+
+    const id = `pm_fake_${crypto.randomUUID()}`;
+    fakeCards.set(id, digits);
+    return { id, brand: getCardBrand(digits), last4: digits.slice(-4), expMonth: month, expYear: 2000 + year };
+  },
+
+  confirmCardPayment: async (clientSecret, paymentMethodId, authenticate) => {
+    await delay();
+    const digits = fakeCards.get(paymentMethodId);
+    if (!clientSecret || !digits) {
+      throw declined('This payment could not be processed. Please re-enter your card.', 'payment_method_invalid');
+    }
+    if (FAKE_DECLINES[digits]) throw declined(FAKE_DECLINES[digits]);
+    if (digits === FAKE_CHALLENGE_CARD) {
+      const passed = await authenticate({ message: 'Your bank needs to confirm this payment is really you.' });
+      if (!passed) throw declined('We couldn\'t verify this payment with your bank.', 'authentication_failed');
+    }
+  },
+};
+
+// Providers by the name VITE_PAYMENT_PROVIDER selects. Hosted providers'
+// adapters are registered by the app's entry point before it starts.
+const providers = new Map<string, PaymentProvider>();
+
+export const registerPaymentProvider = (id: string, provider: PaymentProvider) => {
+  providers.set(id, provider);
+};
+
+// The fake provider approves payments without charging anyone, so it is
+// only registered in development and test builds
+if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
+  registerPaymentProvider('fake', fakePaymentProvider);
+}
+
+const describeMissingProvider = (name?: string) => {
+  const registered = [...providers.keys()].join(', ') || 'none';
+  return name
+    ? `VITE_PAYMENT_PROVIDER is "${name}", but no such payment provider is registered (registered: ${registered})`
+    : `VITE_PAYMENT_PROVIDER is not set (registered payment providers: ${registered})`;
+};
+
+// Called once at startup, after the providers are registered, so a build
+// that can't take payments fails on load rather than at the Place Order step
+export const assertPaymentProviderConfigured = () => {
+  const name = import.meta.env.VITE_PAYMENT_PROVIDER;
+  if (!name || !providers.has(name)) throw new Error(describeMissingProvider(name));
+};
+
+// Chosen with VITE_PAYMENT_PROVIDER. A missing or unknown name is a
+// configuration error rather than a reason to fall back to another provider.
+export const getPaymentProvider = (): PaymentProvider => {
+  const name = import.meta.env.VITE_PAYMENT_PROVIDER;
+  const provider = name ? providers.get(name) : undefined;
+  if (!provider) {
+    throw new ApiError('Card payments are unavailable right now. Please try again later.', {
+      status: 0,
+      code: 'payment_provider_unavailable',
+      retryable: false,
+      cause: new Error(describeMissingProvider(name)),
+    });
+  }
+  return provider;
+};
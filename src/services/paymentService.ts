@@ -0,0 +1,64 @@
+import api, { ApiError } from '../config/api';
+import { Order } from '../store';
+import type { PaymentDetails } from './checkoutSteps';
+import { AuthenticatePayment, PaymentMethod, getPaymentProvider } from './paymentProviders';
+
+export interface PaymentResponse {
+  success: boolean;
+  data?: {
+    paymentMethod?: PaymentMethod;
+    // The order with its payment recorded
+    order?: Order;
+  };
+  message?: string;
+  error?: ApiError;
+}
+
+const failure = (error: unknown, fallbackMessage: string): PaymentResponse => {
+  const apiError = ApiError.from(error, fallbackMessage);
+  return {
+    success: false,
+    message: apiError.message,
+    error: apiError,
+  };
+};
+
+export const paymentService = {
+  // Hands the card to the provider; the raw details go no further
+  async createPaymentMethod(card: PaymentDetails): Promise<PaymentResponse> {
+    try {
+      const paymentMethod = await getPaymentProvider().createPaymentMethod(card);
+      return { success: true, data: { paymentMethod } };
+    } catch (error) {
+      return failure(error, 'We couldn\'t save this card');
+    }
+  },
+
+  // Creates a payment intent for the order, confirms it with the provider
+  // (running any challenge the issuer asks for), then has the server record
+  // the payment against the order. A declined card fails with status 402.
+  async payForOrder(
+    orderId: string,
+    amount: number,
+    paymentMethodId: string,
+    authenticate: AuthenticatePayment
+  ): Promise<PaymentResponse> {
+    try {
+      const provider = getPaymentProvider();
+      // Keyed so a repeated attempt with the same card reuses the intent
+      // rather than charging twice
+      const intent = await api.payments.createPaymentIntent(amount, orderId, {
+        idempotencyKey: `payment-intent:${orderId}:${paymentMethodId}`,
+      });
+      await provider.confirmCardPayment(intent.clientSecret, paymentMethodId, authenticate);
+      const order = await api.payments.confirmPayment(intent.paymentIntentId, orderId, {
+        idempotencyKey: `confirm-payment:${intent.paymentIntentId}`,
+      });
+      return { success: true, data: { order } };
+    } catch (error) {
+      return failure(error, 'Payment failed');
+    }
+  },
+};
+
+export default paymentService;
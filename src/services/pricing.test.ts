@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { CartItem, Coupon, PricingSettings, Product } from '../store';
+import { DEFAULT_PRICING_SETTINGS, calculateTotals } from './pricing';
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+
+const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'product-1',
+  name: 'Test Product',
+  description: '',
+  price: 10,
+  condition: 'good',
+  category: 'Phones',
+  brand: 'Acme',
+  images: [],
+  specifications: {},
+  inStock: true,
+  stockCount: 10,
+  rating: 0,
+  reviewCount: 0,
+  featured: false,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const item = (price: number, quantity = 1, overrides: Partial<Product> = {}): CartItem => ({
+  product: makeProduct({ id: `product-${price}-${overrides.category ?? 'Phones'}`, price, ...overrides }),
+  quantity,
+});
+
+const makeCoupon = (overrides: Partial<Coupon> = {}): Coupon => ({
+  id: 'coupon-1',
+  code: 'SAVE',
+  type: 'fixed',
+  value: 10,
+  usageCount: 0,
+  active: true,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const totalsFor = (items: CartItem[], coupon: Coupon | null = null, settings: PricingSettings = DEFAULT_PRICING_SETTINGS) =>
+  calculateTotals(items, coupon, settings, { now: NOW });
+
+describe('calculateTotals', () => {
+  it('charges nothing for an empty cart', () => {
+    const totals = totalsFor([]);
+
+    expect(totals.subtotal).toBe(0);
+    expect(totals.discount).toBe(0);
+    expect(totals.shipping).toBe(0);
+    expect(totals.tax).toBe(0);
+    expect(totals.total).toBe(0);
+  });
+
+  describe('free shipping threshold', () => {
+    it('applies when the subtotal reaches the threshold', () => {
+      expect(totalsFor([item(55)]).shipping).toBe(0);
+    });
+
+    it('is checked against the subtotal after the discount', () => {
+      const totals = totalsFor([item(55)], makeCoupon({ value: 10 }));
+
+      expect(totals.discount).toBe(10);
+      expect(totals.shipping).toBe(DEFAULT_PRICING_SETTINGS.standardShippingRate);
+      expect(totals.total).toBe(58.59);
+    });
+
+    it('still applies when the discounted subtotal lands exactly on it', () => {
+      expect(totalsFor([item(60)], makeCoupon({ value: 10 })).shipping).toBe(0);
+    });
+  });
+
+  describe('fixed coupons', () => {
+    it('never discount more than the subtotal', () => {
+      const totals = totalsFor([item(30)], makeCoupon({ value: 100 }));
+
+      expect(totals.discount).toBe(30);
+      expect(totals.tax).toBe(0);
+      expect(totals.total).toBe(DEFAULT_PRICING_SETTINGS.standardShippingRate);
+    });
+  });
+
+  describe('rounding', () => {
+    it('keeps the subtotal to whole cents', () => {
+      expect(totalsFor([item(0.1, 3)]).subtotal).toBe(0.3);
+      expect(totalsFor([item(19.99, 3)]).subtotal).toBe(59.97);
+    });
+
+    it('rounds the discount and tax so the parts add up to the total', () => {
+      const totals = totalsFor([item(19.99, 3)], makeCoupon({ type: 'percentage', value: 10 }));
+
+      expect(totals.discount).toBe(6);
+      expect(totals.tax).toBe(4.32);
+      expect(totals.total).toBe(58.29);
+      expect(totals.total).toBe(
+        Math.round((totals.subtotal - totals.discount + totals.shipping + totals.tax) * 100) / 100
+      );
+    });
+  });
+
+  describe('tax-exempt categories', () => {
+    const settings: PricingSettings = { ...DEFAULT_PRICING_SETTINGS, taxExemptCategories: ['Books'] };
+
+    it('leaves exempt lines out of the taxable amount', () => {
+      const totals = totalsFor([item(40), item(20, 1, { category: 'books' })], null, settings);
+
+      expect(totals.tax).toBe(3.2);
+      expect(totals.total).toBe(63.2);
+    });
+
+    it('only takes the taxable share of the discount off the taxable amount', () => {
+      const totals = totalsFor([item(40), item(20, 1, { category: 'Books' })], makeCoupon({ value: 6 }), settings);
+
+      expect(totals.tax).toBe(2.88);
+    });
+
+    it('charges no tax when every line is exempt', () => {
+      const totals = totalsFor([item(20, 2, { category: 'Books' })], null, settings);
+
+      expect(totals.taxLines.every(line => line.amount === 0)).toBe(true);
+      expect(totals.tax).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { CartItem, Coupon, Order, PricingSettings, ShippingMethodId, TaxLine } from '../store';
+import { getSubtotal, roundCents } from './money';
+import { getCouponDiscount } from './couponRules';
+import { TaxAddress, calculateTaxLines } from './taxRules';
+import { ShippingQuote, getShippingQuotes } from './shippingRules';
+
+// The one place cart, checkout and order totals are worked out. Every amount
+// is rounded to cents before it is added up, so the rows shown always sum to
+// the total shown.
+
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  shippingMethod: ShippingMethodId;
+  shipping: number;
+  tax: number;
+  // What makes up `tax`, one line per rate charged
+  taxLines: TaxLine[];
+  total: number;
+}
+
+// Used until the store's own settings have loaded
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  freeShippingThreshold: 50,
+  standardShippingRate: 9.99,
+  expressShippingRate: 19.99,
+  standardDelivery: { minDays: 5, maxDays: 7 },
+  expressDelivery: { minDays: 1, maxDays: 2 },
+  localPickupEnabled: false,
+  pickupAddress: '',
+  pickupReadyDays: 1,
+  includedWeightKg: 5,
+  weightRatePerKg: 1.5,
+  shippingZones: [],
+  taxRate: 0.08,
+  taxRates: [],
+  taxExemptCategories: [],
+};
+
+export interface TotalsOptions {
+  // Without an address, tax is an estimate at the store's default rate and
+  // shipping ignores zones
+  address?: TaxAddress;
+  // Falls back to standard shipping when the method isn't offered
+  shippingMethod?: ShippingMethodId;
+  now?: Date;
+}
+
+const getDiscount = (items: CartItem[], coupon: Coupon | null, now: Date) => {
+  const subtotal = getSubtotal(items);
+  const couponDiscount = getCouponDiscount(coupon, items, now);
+  return { subtotal, amount: Math.min(couponDiscount.amount, subtotal), freeShipping: couponDiscount.freeShipping };
+};
+
+// Shipping methods offered for the cart, priced as calculateTotals prices them
+export const getCartShippingQuotes = (
+  items: CartItem[],
+  coupon: Coupon | null,
+  settings: PricingSettings,
+  { address, now = new Date() }: TotalsOptions = {}
+): ShippingQuote[] => {
+  const discount = getDiscount(items, coupon, now);
+  const freeStandardShipping = discount.freeShipping ||
+    roundCents(discount.subtotal - discount.amount) >= settings.freeShippingThreshold;
+  return getShippingQuotes(items, settings, address?.country, freeStandardShipping);
+};
+
+// Shipping and tax are worked out on the subtotal after the discount. An
+// empty cart costs nothing, shipping included.
+export const calculateTotals = (
+  items: CartItem[],
+  coupon: Coupon | null,
+  settings: PricingSettings,
+  options: TotalsOptions = {}
+): OrderTotals => {
+  const { address, shippingMethod = 'standard', now = new Date() } = options;
+  const { subtotal, amount: discount } = getDiscount(items, coupon, now);
+  const discounted = roundCents(subtotal - discount);
+
+  const quotes = getCartShippingQuotes(items, coupon, settings, { address, now });
+  const quote = quotes.find(entry => entry.method === shippingMethod) ?? quotes[0];
+  const shipping = items.length === 0 ? 0 : quote.cost;
+  const taxLines = calculateTaxLines(items, discount, settings, address);
+  const tax = roundCents(taxLines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    subtotal,
+    discount,
+    shippingMethod: quote.method,
+    shipping,
+    tax,
+    taxLines,
+    total: roundCents(discounted + shipping + tax),
+  };
+};
+
+// How much more the cart needs for free standard shipping; 0 once it qualifies
+export const getFreeShippingRemaining = (totals: OrderTotals, settings: PricingSettings): number => {
+  if (totals.shipping === 0) return 0;
+  return roundCents(Math.max(0, settings.freeShippingThreshold - (totals.subtotal - totals.discount)));
+};
+
+// Totals as the order was placed, or null for older orders stored without a
+// breakdown (they only have a total)
+export const getOrderTotals = (order: Order): OrderTotals | null => {
+  if (order.subtotal === undefined) return null;
+  return {
+    subtotal: order.subtotal,
+    discount: order.discount ?? 0,
+    shippingMethod: order.shippingMethod ?? 'standard',
+    shipping: order.shippingCost ?? 0,
+    tax: order.tax ?? 0,
+    taxLines: order.taxLines ?? [],
+    total: order.total,
+  };
+};
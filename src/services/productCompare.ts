@@ -0,0 +1,66 @@
+import type { Product } from '../store';
+
+// Side-by-side comparison helpers. Refurbished listings of the same model
+// often name their specifications slightly differently ("Storage" vs
+// "storage "), so keys are matched case- and whitespace-insensitively and
+// shown with the spelling of the first product that has them.
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  // One entry per product, in product order; undefined when a product
+  // doesn't list the specification
+  values: Array<string | undefined>;
+  differs: boolean;
+}
+
+export interface Savings {
+  amount: number;
+  percent: number;
+}
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const normalizeValue = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// A missing value counts as a difference, since it's one for the shopper
+export const valuesDiffer = (values: Array<string | undefined>): boolean => {
+  if (values.length < 2) return false;
+  const [first, ...rest] = values.map(value => (value === undefined ? undefined : normalizeValue(value)));
+  return rest.some(value => value !== first);
+};
+
+// Rows follow the order keys first appear across the products
+export const alignSpecifications = (products: Product[]): ComparisonRow[] => {
+  const rows = new Map<string, { label: string; values: Array<string | undefined> }>();
+
+  products.forEach((product, index) => {
+    Object.entries(product.specifications || {}).forEach(([key, value]) => {
+      const normalized = normalizeKey(key);
+      if (!normalized) return;
+      let row = rows.get(normalized);
+      if (!row) {
+        row = { label: key.trim(), values: products.map(() => undefined) };
+        rows.set(normalized, row);
+      }
+      // The first spelling of a duplicated key within one product wins
+      if (row.values[index] === undefined) row.values[index] = value;
+    });
+  });
+
+  return Array.from(rows.entries()).map(([key, row]) => ({
+    key,
+    label: row.label,
+    values: row.values,
+    differs: valuesDiffer(row.values),
+  }));
+};
+
+export const getSavings = (product: Product): Savings | null => {
+  if (!product.originalPrice || product.originalPrice <= product.price) return null;
+  const amount = product.originalPrice - product.price;
+  return {
+    amount,
+    percent: Math.round((amount / product.originalPrice) * 100),
+  };
+};
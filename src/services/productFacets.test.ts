@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../store';
+import { computeProductFacets, getFacetCount } from './productFacets';
+
+const makeProduct = (id: string, overrides: Partial<Product>): Product => ({
+  id,
+  name: `Product ${id}`,
+  description: '',
+  price: 100,
+  condition: 'good',
+  category: 'Phones',
+  brand: 'Acme',
+  images: [],
+  specifications: {},
+  inStock: true,
+  stockCount: 10,
+  rating: 0,
+  reviewCount: 0,
+  featured: false,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const catalog = [
+  makeProduct('1', { brand: 'Acme', condition: 'excellent', price: 50 }),
+  makeProduct('2', { brand: 'Acme', condition: 'good', price: 300 }),
+  makeProduct('3', { brand: 'Globex', condition: 'good', price: 700 }),
+  makeProduct('4', { brand: 'Initech', condition: 'fair', price: 150, category: 'Laptops' }),
+];
+
+describe('computeProductFacets', () => {
+  it('counts every value over the full list', () => {
+    const facets = computeProductFacets(catalog, {}, ['Phones', 'Laptops', 'Tablets']);
+
+    expect(getFacetCount(facets, 'brand', 'Acme')).toBe(2);
+    expect(getFacetCount(facets, 'condition', 'good')).toBe(2);
+    expect(getFacetCount(facets, 'category', 'Laptops')).toBe(1);
+    expect(getFacetCount(facets, 'category', 'Tablets')).toBe(0);
+    expect(facets.price.map(bucket => bucket.count)).toEqual([1, 1, 1, 1, 0, 0]);
+  });
+
+  it('leaves a dimension\'s own selection out of its counts', () => {
+    const facets = computeProductFacets(catalog, { brand: ['Acme'], condition: ['good'] });
+
+    // Other brands still show what picking them would add
+    expect(getFacetCount(facets, 'brand', 'Globex')).toBe(1);
+    expect(getFacetCount(facets, 'brand', 'Initech')).toBe(0);
+    // Conditions are counted within the selected brand
+    expect(getFacetCount(facets, 'condition', 'excellent')).toBe(1);
+    expect(getFacetCount(facets, 'condition', 'fair')).toBe(0);
+  });
+
+  it('counts zero for values the other filters rule out, so they can be disabled', () => {
+    const facets = computeProductFacets(catalog, { category: 'Laptops', minPrice: 0, maxPrice: 200 });
+
+    expect(getFacetCount(facets, 'brand', 'Initech')).toBe(1);
+    expect(getFacetCount(facets, 'brand', 'Acme')).toBe(0);
+    expect(getFacetCount(facets, 'category', 'Phones')).toBe(1);
+  });
+});
@@ -0,0 +1,92 @@
+import type { Product } from '../store';
+import type { FacetCount, PriceFacet, ProductFacets } from '../config/api';
+import type { ProductFilters } from './productService';
+import { searchProducts } from './productSearch';
+
+// Client-side facet counts, used when the API doesn't return `facets` with
+// a product list. They are counted over the full product list, not the page
+// being shown, with the usual faceted-search rule: each facet is counted
+// with every other active filter applied but not its own, so picking a
+// brand still shows how many products the other brands have.
+
+export type FacetDimension = keyof ProductFacets;
+
+export const productConditions: Product['condition'][] = ['excellent', 'good', 'fair', 'refurbished'];
+
+export const priceBuckets: Array<{ min: number; max?: number }> = [
+  { min: 0, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: 1000 },
+  { min: 1000, max: 2500 },
+  { min: 2500 },
+];
+
+const inRange = (price: number, min = 0, max?: number) =>
+  price >= min && (max === undefined || price <= max);
+
+// Buckets share their edges, so a bucket only counts its upper edge when open-ended
+const inBucket = (price: number, bucket: { min: number; max?: number }) =>
+  price >= bucket.min && (bucket.max === undefined || price < bucket.max);
+
+const matches = (product: Product, query: ProductFilters, except: FacetDimension) =>
+  (except === 'category' || !query.category || product.category === query.category) &&
+  (except === 'price' || inRange(product.price, query.minPrice, query.maxPrice)) &&
+  (except === 'condition' || !query.condition?.length || query.condition.includes(product.condition)) &&
+  (except === 'brand' || !query.brand?.length || query.brand.includes(product.brand)) &&
+  (!query.inStock || product.inStock) &&
+  (!query.featured || product.featured);
+
+// `categories` lists every category name, so empty categories are still
+// offered (with a count of 0)
+export const computeProductFacets = (
+  products: Product[],
+  query: ProductFilters,
+  categories: string[] = []
+): ProductFacets => {
+  const searched = query.search?.trim()
+    ? searchProducts(products, query.search).map(result => result.product)
+    : products;
+
+  const countValues = (
+    dimension: 'brand' | 'condition' | 'category',
+    selected: string[],
+    valueOf: (product: Product) => string,
+    known: string[] = []
+  ): FacetCount[] => {
+    const counts = new Map<string, number>();
+    searched
+      .filter(product => matches(product, query, dimension))
+      .forEach(product => counts.set(valueOf(product), (counts.get(valueOf(product)) ?? 0) + 1));
+
+    const values = new Set([...known, ...products.map(valueOf), ...selected]);
+    return Array.from(values).map(value => ({ value, count: counts.get(value) ?? 0 }));
+  };
+
+  const priced = searched.filter(product => matches(product, query, 'price'));
+  const price: PriceFacet[] = priceBuckets.map(bucket => ({
+    ...bucket,
+    count: priced.filter(product => inBucket(product.price, bucket)).length,
+  }));
+
+  return {
+    brand: countValues('brand', query.brand ?? [], product => product.brand)
+      .sort((a, b) => a.value.localeCompare(b.value)),
+    condition: countValues('condition', query.condition ?? [], product => product.condition, productConditions),
+    category: countValues('category', query.category ? [query.category] : [], product => product.category, categories)
+      .sort((a, b) => a.value.localeCompare(b.value)),
+    price,
+  };
+};
+
+// How many products a facet value would return: null when unknown, and 0
+// when the facets are known but don't list the value
+export const getFacetCount = (
+  facets: ProductFacets | null,
+  dimension: 'brand' | 'condition' | 'category',
+  value: string
+): number | null => {
+  if (!facets) return null;
+  const facet = facets[dimension].find(item => item.value === value);
+  return facet ? facet.count : 0;
+};
@@ -0,0 +1,216 @@
+import type { Product } from '../store';
+
+// Ranked, typo-tolerant search over products already loaded on the client.
+//
+// - Text is split into lowercase, accent-free tokens.
+// - A query token matches a product token exactly, as a prefix, or within a
+//   small edit distance ("iphnoe" -> "iphone", "macbok" -> "macbook").
+// - Each query token scores its best match times the field's weight, so a
+//   hit in the name outranks one in the description.
+// - Every query token has to match, except that longer queries may miss one.
+
+export type SearchField = 'name' | 'brand' | 'specifications' | 'description';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+  // Matched ranges per field, for highlighting; `specifications` ranges
+  // refer to the `key value` lines produced by specificationsText
+  highlights: Partial<Record<SearchField, TextRange[]>>;
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+const fieldWeights: Record<SearchField, number> = {
+  name: 4,
+  brand: 3,
+  specifications: 2,
+  description: 1,
+};
+
+const searchFields = Object.keys(fieldWeights) as SearchField[];
+
+interface Token extends TextRange {
+  text: string;
+}
+
+interface IndexedProduct {
+  name: string;
+  fields: Record<SearchField, Token[]>;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Tokens keep their offsets in the original text so matches can be highlighted
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    text: normalizeText(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+export const specificationsText = (specifications: Record<string, string> = {}): string =>
+  Object.entries(specifications)
+    .map(([key, value]) => `${key} ${value}`)
+    .join('\n');
+
+// Products are immutable in the store, so the index can live as long as they do
+const indexCache = new WeakMap<Product, IndexedProduct>();
+
+const indexProduct = (product: Product): IndexedProduct => {
+  let indexed = indexCache.get(product);
+  if (!indexed) {
+    const name = tokenize(product.name);
+    indexed = {
+      name: name.map(token => token.text).join(' '),
+      fields: {
+        name,
+        brand: tokenize(product.brand || ''),
+        specifications: tokenize(specificationsText(product.specifications)),
+        description: tokenize(product.description || ''),
+      },
+    };
+    indexCache.set(product, indexed);
+  }
+  return indexed;
+};
+
+// Optimal string alignment distance: insertions, deletions, substitutions
+// and adjacent transpositions each cost 1. Gives up once `max` is exceeded.
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+};
+
+// Short tokens and numbers ("16", "ssd") must be typed exactly
+const allowedTypos = (token: string): number => {
+  if (/^\d+$/.test(token) || token.length <= 3) return 0;
+  return token.length <= 6 ? 1 : 2;
+};
+
+// 1 for an exact match, less for prefixes and typos, 0 for no match
+const matchQuality = (queryToken: string, token: string): number => {
+  if (token === queryToken) return 1;
+  if (queryToken.length >= 2 && token.startsWith(queryToken)) return 0.8;
+
+  const typos = allowedTypos(queryToken);
+  if (typos === 0) return 0;
+  const distance = editDistance(queryToken, token, typos);
+  if (distance <= typos) return 0.7 - (distance - 1) * 0.15;
+
+  // A typo in what is still being typed: "macbo" -> "macbook", "iphn" -> "iphone"
+  const prefix = token.slice(0, queryToken.length);
+  return editDistance(queryToken, prefix, typos) <= typos ? 0.5 : 0;
+};
+
+const mergeRanges = (ranges: TextRange[]): TextRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+const scoreProduct = (product: Product, queryTokens: string[], phrase: string): SearchResult | null => {
+  const indexed = indexProduct(product);
+  const highlights: Partial<Record<SearchField, TextRange[]>> = {};
+  let score = 0;
+  let missed = 0;
+
+  queryTokens.forEach(queryToken => {
+    let best = 0;
+    searchFields.forEach(field => {
+      indexed.fields[field].forEach(token => {
+        const quality = matchQuality(queryToken, token.text);
+        if (quality === 0) return;
+        (highlights[field] = highlights[field] || []).push({ start: token.start, end: token.end });
+        best = Math.max(best, quality * fieldWeights[field]);
+      });
+    });
+    if (best === 0) missed++;
+    score += best;
+  });
+
+  const allowedMisses = queryTokens.length >= 3 ? 1 : 0;
+  if (score === 0 || missed > allowedMisses) return null;
+
+  // Whole-phrase matches in the name beat the same words scattered around
+  if (indexed.name.startsWith(phrase)) {
+    score += fieldWeights.name;
+  } else if (indexed.name.includes(phrase)) {
+    score += fieldWeights.name / 2;
+  }
+
+  searchFields.forEach(field => {
+    if (highlights[field]) highlights[field] = mergeRanges(highlights[field]!);
+  });
+
+  return { product, score: score * (1 - missed / (queryTokens.length + 1)), highlights };
+};
+
+export const searchProducts = (
+  products: Product[],
+  query: string,
+  { limit }: SearchOptions = {}
+): SearchResult[] => {
+  const queryTokens = [...new Set(tokenize(query).map(token => token.text))];
+  if (queryTokens.length === 0) return [];
+  const phrase = queryTokens.join(' ');
+
+  const results = products
+    .map(product => scoreProduct(product, queryTokens, phrase))
+    .filter((result): result is SearchResult => result !== null)
+    .sort((a, b) => b.score - a.score || (b.product.rating ?? 0) - (a.product.rating ?? 0));
+
+  return limit === undefined ? results : results.slice(0, limit);
+};
+
+// Splits text into plain and matched segments for rendering
+export const highlightSegments = (
+  text: string,
+  ranges: TextRange[] = []
+): Array<{ text: string; match: boolean }> => {
+  const segments: Array<{ text: string; match: boolean }> = [];
+  let cursor = 0;
+  mergeRanges(ranges).forEach(({ start, end }) => {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
@@ -1,4 +1,4 @@
-import api from '../config/api';
+import api, { CallOptions, Pagination, ProductInput } from '../config/api';
 import { Product } from '../store';
 
 export interface ProductFilters {
@@ -19,20 +19,14 @@ export interface ProductResponse {
   success: boolean;
   data: {
     products: Product[];
-    pagination?: {
-      currentPage: number;
-      totalPages: number;
-      totalProducts: number;
-      hasNextPage: boolean;
-      hasPrevPage: boolean;
-    };
+    pagination?: Pagination;
   };
 }
 
 export const productService = {
-  async getProducts(filters: ProductFilters = {}): Promise<ProductResponse> {
+  async getProducts(filters: ProductFilters = {}, options?: CallOptions): Promise<ProductResponse> {
     const params = new URLSearchParams();
-    
+
     Object.entries(filters).forEach(([key, value]) => {
       if (value !== undefined && value !== null && value !== '') {
         if (Array.isArray(value)) {
@@ -43,23 +37,28 @@ export const productService = {
       }
     });
 
-    return api.products.getAll(params);
+    const data = await api.products.getAll(params, options);
+    return { success: true, data };
   },
 
-  async getProductById(id: string): Promise<{ success: boolean; data: { product: Product } }> {
-    return api.products.getById(id);
+  async getProductById(id: string, options?: CallOptions): Promise<{ success: boolean; data: { product: Product } }> {
+    const product = await api.products.getById(id, options);
+    return { success: true, data: { product } };
   },
 
-  async createProduct(productData: Omit<Product, 'id' | 'createdAt'>): Promise<{ success: boolean; data: { product: Product } }> {
-    return api.products.create(productData);
+  async createProduct(productData: ProductInput): Promise<{ success: boolean; data: { product: Product } }> {
+    const product = await api.products.create(productData);
+    return { success: true, data: { product } };
   },
 
-  async updateProduct(id: string, productData: Partial<Product>): Promise<{ success: boolean; data: { product: Product } }> {
-    return api.products.update(id, productData);
+  async updateProduct(id: string, productData: Partial<ProductInput>): Promise<{ success: boolean; data: { product: Product } }> {
+    const product = await api.products.update(id, productData);
+    return { success: true, data: { product } };
   },
 
   async deleteProduct(id: string): Promise<{ success: boolean; message: string }> {
-    return api.products.delete(id);
+    const { message } = await api.products.delete(id);
+    return { success: true, message };
   },
 
   async searchProducts(query: string): Promise<ProductResponse> {
@@ -75,4 +74,4 @@ export const productService = {
   },
 };
 
-export default productService;
\ No newline at end of file
+export default productService;
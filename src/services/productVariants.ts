@@ -0,0 +1,144 @@
+import type { CartItem, Product, ProductOption, ProductVariant } from '../store';
+
+// Helpers for products sold in several variants (storage, color, carrier).
+// Products without `variants` behave exactly as before: the product itself
+// is the only purchasable item and its cart line is keyed by product id.
+
+export type VariantSelection = Record<string, string>;
+
+export const hasVariants = (product: Product): boolean =>
+  (product.variants?.length ?? 0) > 0;
+
+const matchesSelection = (variant: ProductVariant, selection: VariantSelection) =>
+  Object.entries(selection).every(([name, value]) => variant.options[name] === value);
+
+// The variant whose options match the selection on every axis
+export const findVariant = (product: Product, selection: VariantSelection): ProductVariant | undefined =>
+  product.variants?.find(variant =>
+    (product.options || []).every(option => variant.options[option.name] === selection[option.name])
+  );
+
+// First in-stock variant, so the picker doesn't open on a sold-out one
+export const getDefaultVariant = (product: Product): ProductVariant | undefined =>
+  product.variants?.find(variant => variant.stockCount > 0) ?? product.variants?.[0];
+
+// Whether picking `value` on `optionName`, keeping the other current
+// choices, leads to a variant that can be bought
+export const isOptionValueAvailable = (
+  product: Product,
+  selection: VariantSelection,
+  optionName: string,
+  value: string
+): boolean => {
+  const candidate = { ...selection, [optionName]: value };
+  return (product.variants || []).some(variant => matchesSelection(variant, candidate) && variant.stockCount > 0);
+};
+
+// The variant to switch to when a shopper picks `value` on `optionName`.
+// Keeps their other choices where that combination exists; otherwise jumps
+// to the closest variant with the picked value, preferring one in stock.
+export const selectOptionValue = (
+  product: Product,
+  current: ProductVariant | undefined,
+  optionName: string,
+  value: string
+): ProductVariant | undefined => {
+  const exact = findVariant(product, { ...(current?.options || {}), [optionName]: value });
+  if (exact) return exact;
+  const withValue = (product.variants || []).filter(variant => variant.options[optionName] === value);
+  return withValue.find(variant => variant.stockCount > 0) ?? withValue[0];
+};
+
+// e.g. "256GB / Midnight / Unlocked", in the product's option order
+export const formatVariantLabel = (variant: ProductVariant, options?: ProductOption[]): string => {
+  const names = options?.map(option => option.name) ?? Object.keys(variant.options);
+  return names
+    .map(name => variant.options[name])
+    .filter(Boolean)
+    .join(' / ');
+};
+
+export const cartLineId = (productId: string, variantId?: string): string =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+export const getCartLineId = (item: CartItem): string =>
+  cartLineId(item.product.id, item.variant?.id);
+
+export const getItemPrice = (item: CartItem): number =>
+  item.variant?.price ?? item.product.price;
+
+export const getItemImage = (item: CartItem): string | undefined =>
+  item.variant?.images?.[0] ?? item.product.images[0];
+
+export const getItemCondition = (item: CartItem): Product['condition'] =>
+  item.variant?.condition ?? item.product.condition;
+
+// Trims names and values and drops blanks and duplicates left over from editing
+export const cleanOptions = (options: ProductOption[]): ProductOption[] =>
+  options
+    .map(option => ({
+      name: option.name.trim(),
+      values: Array.from(new Set(option.values.map(value => value.trim()).filter(Boolean))),
+    }))
+    .filter(option => option.name && option.values.length > 0);
+
+// Every combination of option values, keeping the existing variant for
+// combinations that already have one
+export const buildVariantCombinations = (
+  options: ProductOption[],
+  existing: ProductVariant[],
+  defaults: Pick<ProductVariant, 'price' | 'originalPrice' | 'condition'>,
+  createId: () => string
+): ProductVariant[] => {
+  const axes = cleanOptions(options);
+  if (axes.length === 0) return [];
+
+  const combinations = axes.reduce<VariantSelection[]>(
+    (acc, option) => acc.flatMap(selection => option.values.map(value => ({ ...selection, [option.name]: value }))),
+    [{}]
+  );
+
+  return combinations.map(selection => {
+    const match = existing.find(variant =>
+      axes.every(option => variant.options[option.name] === selection[option.name])
+    );
+    if (match) return { ...match, options: selection };
+    return {
+      id: createId(),
+      sku: '',
+      options: selection,
+      price: defaults.price,
+      originalPrice: defaults.originalPrice,
+      condition: defaults.condition,
+      stockCount: 0,
+    };
+  });
+};
+
+// Product-level fields derived from the variants, so listings, filters and
+// sorting keep working on the flat record: the lowest price ("from $X") and
+// the total stock
+export const summarizeVariants = (variants: ProductVariant[]): Pick<Product, 'price' | 'originalPrice' | 'stockCount' | 'inStock'> => {
+  const cheapest = variants.reduce((best, variant) => (variant.price < best.price ? variant : best), variants[0]);
+  const stockCount = variants.reduce((total, variant) => total + Math.max(0, variant.stockCount), 0);
+  return {
+    price: cheapest.price,
+    originalPrice: cheapest.originalPrice,
+    stockCount,
+    inStock: stockCount > 0,
+  };
+};
+
+// Returns a message describing the first problem, or null when valid
+export const validateVariants = (variants: ProductVariant[]): string | null => {
+  const skus = new Set<string>();
+  for (const variant of variants) {
+    const label = formatVariantLabel(variant) || 'A variant';
+    if (!variant.sku.trim()) return `${label} needs a SKU`;
+    if (skus.has(variant.sku.trim())) return `SKU ${variant.sku} is used by more than one variant`;
+    skus.add(variant.sku.trim());
+    if (!(variant.price > 0)) return `${label} needs a price`;
+    if (variant.stockCount < 0) return `${label} can't have negative stock`;
+  }
+  return null;
+};
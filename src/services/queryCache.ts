@@ -0,0 +1,346 @@
+import { ApiError } from '../config/api';
+import type { ProductFilters } from './productService';
+
+// Stale-while-revalidate cache for read requests.
+//
+// - Fresh entries (younger than `staleTime`) are served without a request.
+// - Stale entries (younger than `cacheTime`) are served immediately and
+//   refetched in the background; `onUpdate` receives the new data.
+// - Expired or missing entries are fetched, and concurrent fetches of the
+//   same key share one request.
+// - Entries created with `persist` survive reloads via localStorage, up to a
+//   count and size cap; the least recently used are evicted first.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryOptions<T> {
+  staleTime: number;
+  cacheTime: number;
+  persist?: boolean;
+  // Skip the cache and refetch, still sharing any request already in flight
+  force?: boolean;
+  signal?: AbortSignal;
+  onUpdate?: (data: T) => void;
+}
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+}
+
+interface CacheEntry<T> {
+  data?: T;
+  updatedAt: number;
+  cacheTime: number;
+  inFlight?: InFlight<T>;
+}
+
+const STORAGE_PREFIX = 'query-cache:';
+
+// Sorted keys and sorted arrays so `{ brand: ['b', 'a'] }` and
+// `{ brand: ['a', 'b'] }` share an entry; empty filters are dropped
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(canonicalize);
+    return items.every(item => typeof item === 'string' || typeof item === 'number')
+      ? [...items].sort()
+      : items;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const item = (value as Record<string, unknown>)[key];
+        if (item === undefined || item === null || item === '') return result;
+        if (Array.isArray(item) && item.length === 0) return result;
+        result[key] = canonicalize(item);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(canonicalize(key));
+
+export const queryKeys = {
+  products: (filters: ProductFilters = {}) => ['products', filters] as const,
+  // Every product, for client-side search; under 'products' so it is invalidated with the lists
+  searchCatalog: () => ['products', 'catalog'] as const,
+  product: (id: string) => ['product', id] as const,
+  categories: () => ['categories'] as const,
+  categoryBySlug: (slug: string) => ['category', 'slug', slug] as const,
+};
+
+const MINUTE = 60 * 1000;
+
+// How long each kind of query is fresh, and how long it may be served stale
+export const queryTimes = {
+  products: { staleTime: MINUTE, cacheTime: 30 * MINUTE },
+  product: { staleTime: MINUTE, cacheTime: 30 * MINUTE },
+  categories: { staleTime: 5 * MINUTE, cacheTime: 24 * 60 * MINUTE },
+};
+
+const entries = new Map<string, CacheEntry<unknown>>();
+
+// Persisted entries are capped by count and size. An index of when each was
+// last used and when it expires lets us evict the least recently used ones
+// and sweep expired ones without parsing every entry.
+const INDEX_KEY = 'query-cache-index';
+const MAX_PERSISTED_ENTRIES = 50;
+// In UTF-16 characters, well inside the usual 5MB localStorage quota
+const MAX_PERSISTED_SIZE = 2 * 1024 * 1024;
+
+interface IndexRecord {
+  usedAt: number;
+  expiresAt: number;
+  size: number;
+}
+
+type PersistedIndex = Record<string, IndexRecord>;
+
+const readIndex = (): PersistedIndex => {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY);
+    return raw ? (JSON.parse(raw) as PersistedIndex) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeIndex = (index: PersistedIndex) => {
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+  } catch {
+    // Storage full or disabled; the next sweep drops entries missing from it
+  }
+};
+
+const removePersisted = (hash: string, index: PersistedIndex) => {
+  delete index[hash];
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + hash);
+  } catch {
+    // Storage unavailable; nothing to remove
+  }
+};
+
+// The least recently used entry, if any
+const leastRecentlyUsed = (index: PersistedIndex): string | undefined =>
+  Object.keys(index).sort((a, b) => index[a].usedAt - index[b].usedAt)[0];
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Drops expired entries, and any stored entry the index doesn't know about
+// (left behind by an older version or a failed index write)
+const sweepPersisted = () => {
+  try {
+    const index = readIndex();
+    const now = Date.now();
+    Object.keys(index)
+      .filter(hash => index[hash].expiresAt < now)
+      .forEach(hash => removePersisted(hash, index));
+    Object.keys(localStorage)
+      .filter(storageKey => storageKey.startsWith(STORAGE_PREFIX) && !index[storageKey.slice(STORAGE_PREFIX.length)])
+      .forEach(storageKey => localStorage.removeItem(storageKey));
+    writeIndex(index);
+  } catch {
+    // Storage unavailable; nothing was persisted
+  }
+};
+
+const readPersisted = <T>(hash: string): CacheEntry<T> | undefined => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + hash);
+    if (!raw) return undefined;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    const index = readIndex();
+    if (Date.now() - entry.updatedAt > entry.cacheTime) {
+      removePersisted(hash, index);
+      writeIndex(index);
+      return undefined;
+    }
+    index[hash] = { usedAt: Date.now(), expiresAt: entry.updatedAt + entry.cacheTime, size: raw.length };
+    writeIndex(index);
+    return entry;
+  } catch {
+    return undefined;
+  }
+};
+
+const writePersisted = <T>(hash: string, entry: CacheEntry<T>) => {
+  const value = JSON.stringify({ data: entry.data, updatedAt: entry.updatedAt, cacheTime: entry.cacheTime });
+  // Too big to be worth the space; the in-memory copy still works
+  if (value.length > MAX_PERSISTED_SIZE) return;
+
+  const index = readIndex();
+  delete index[hash];
+  const totalSize = () => Object.values(index).reduce((total, record) => total + record.size, 0);
+  while (
+    Object.keys(index).length >= MAX_PERSISTED_ENTRIES ||
+    (Object.keys(index).length > 0 && totalSize() + value.length > MAX_PERSISTED_SIZE)
+  ) {
+    removePersisted(leastRecentlyUsed(index)!, index);
+  }
+
+  // The browser's quota may be smaller than ours, or shared with other
+  // data; keep evicting until the entry fits or nothing is left to evict
+  for (;;) {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + hash, value);
+      index[hash] = { usedAt: Date.now(), expiresAt: entry.updatedAt + entry.cacheTime, size: value.length };
+      break;
+    } catch (error) {
+      const oldest = leastRecentlyUsed(index);
+      if (!isQuotaError(error) || !oldest) {
+        // Storage full or disabled; the in-memory copy still works
+        console.warn('Failed to persist query cache entry:', error);
+        break;
+      }
+      removePersisted(oldest, index);
+    }
+  }
+  writeIndex(index);
+};
+
+sweepPersisted();
+
+const getEntry = <T>(hash: string, persist?: boolean): CacheEntry<T> | undefined => {
+  let entry = entries.get(hash) as CacheEntry<T> | undefined;
+  if (!entry && persist) {
+    entry = readPersisted<T>(hash);
+    if (entry) entries.set(hash, entry);
+  }
+  return entry;
+};
+
+// Resolves with the shared request but lets each caller cancel on its own;
+// the request itself is only aborted once every caller has given up.
+const join = <T>(inFlight: InFlight<T>, signal?: AbortSignal): Promise<T> => {
+  inFlight.waiters++;
+  if (!signal) return inFlight.promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      inFlight.waiters--;
+      if (inFlight.waiters === 0) inFlight.controller.abort();
+      reject(ApiError.aborted());
+    };
+    if (signal.aborted) {
+      leave();
+      return;
+    }
+    signal.addEventListener('abort', leave, { once: true });
+    inFlight.promise.then(
+      (data) => {
+        signal.removeEventListener('abort', leave);
+        resolve(data);
+      },
+      (error) => {
+        signal.removeEventListener('abort', leave);
+        reject(error);
+      }
+    );
+  });
+};
+
+const start = <T>(
+  hash: string,
+  entry: CacheEntry<T>,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: QueryOptions<T>
+): InFlight<T> => {
+  const controller = new AbortController();
+  const inFlight: InFlight<T> = {
+    controller,
+    waiters: 0,
+    promise: fetcher(controller.signal)
+      .then((data) => {
+        entry.data = data;
+        entry.updatedAt = Date.now();
+        entry.cacheTime = options.cacheTime;
+        if (options.persist && entries.get(hash) === entry) writePersisted(hash, entry);
+        return data;
+      })
+      .finally(() => {
+        if (entry.inFlight === inFlight) entry.inFlight = undefined;
+      }),
+  };
+  entry.inFlight = inFlight;
+  entries.set(hash, entry as CacheEntry<unknown>);
+  return inFlight;
+};
+
+export const queryCache = {
+  async fetch<T>(
+    key: QueryKey,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    options: QueryOptions<T>
+  ): Promise<T> {
+    const hash = hashKey(key);
+    const entry = getEntry<T>(hash, options.persist) || { updatedAt: 0, cacheTime: options.cacheTime };
+    const age = Date.now() - entry.updatedAt;
+    const hasData = entry.data !== undefined && age <= entry.cacheTime;
+
+    if (hasData && !options.force) {
+      if (age > options.staleTime && !entry.inFlight) {
+        const revalidation = start(hash, entry, fetcher, options);
+        revalidation.waiters++;
+        revalidation.promise
+          .then((data) => options.onUpdate?.(data))
+          .catch((error) => {
+            if (!ApiError.from(error).isAborted) {
+              console.warn('Background revalidation failed:', error);
+            }
+          });
+      }
+      return entry.data as T;
+    }
+
+    const inFlight = entry.inFlight || start(hash, entry, fetcher, options);
+    return join(inFlight, options.signal);
+  },
+
+  get<T>(key: QueryKey): T | undefined {
+    const entry = entries.get(hashKey(key)) as CacheEntry<T> | undefined;
+    if (!entry || Date.now() - entry.updatedAt > entry.cacheTime) return undefined;
+    return entry.data;
+  },
+
+  set<T>(key: QueryKey, data: T, cacheTime: number) {
+    const hash = hashKey(key);
+    const existing = entries.get(hash) as CacheEntry<T> | undefined;
+    entries.set(hash, { ...existing, data, updatedAt: Date.now(), cacheTime });
+  },
+
+  // Drops every entry whose key starts with `prefix`, e.g. ['products']
+  // clears all product lists regardless of filters. Requests already in
+  // flight still resolve for their callers but no longer fill the cache.
+  invalidate(prefix: QueryKey) {
+    const head = hashKey(prefix).slice(0, -1);
+    const matches = (hash: string) =>
+      prefix.length === 0 || hash === `${head}]` || hash.startsWith(`${head},`);
+
+    Array.from(entries.keys())
+      .filter(matches)
+      .forEach(hash => entries.delete(hash));
+
+    try {
+      const index = readIndex();
+      Object.keys(localStorage)
+        .filter(storageKey => storageKey.startsWith(STORAGE_PREFIX) && matches(storageKey.slice(STORAGE_PREFIX.length)))
+        .forEach(storageKey => removePersisted(storageKey.slice(STORAGE_PREFIX.length), index));
+      writeIndex(index);
+    } catch {
+      // Storage unavailable; nothing was persisted
+    }
+  },
+
+  clear() {
+    queryCache.invalidate([]);
+  },
+};
+
+export default queryCache;
@@ -0,0 +1,80 @@
+import api, { ApiError, CallOptions, Pagination } from '../config/api';
+import { ProductQuestion } from '../store';
+
+export interface QuestionQuery {
+  search?: string;
+  page?: number;
+  limit?: number;
+  // Admin queue only
+  status?: 'unanswered' | 'answered';
+}
+
+export interface QuestionResponse {
+  success: boolean;
+  data?: {
+    question?: ProductQuestion;
+    questions?: ProductQuestion[];
+    pagination?: Pagination;
+  };
+  message?: string;
+  error?: ApiError;
+}
+
+const toParams = (query: QuestionQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.append(key, String(value));
+  });
+  return params;
+};
+
+const failure = (error: unknown, fallbackMessage: string): QuestionResponse => {
+  const apiError = ApiError.from(error, fallbackMessage);
+  return {
+    success: false,
+    message: apiError.message,
+    error: apiError,
+  };
+};
+
+export const questionService = {
+  async getProductQuestions(productId: string, query: QuestionQuery = {}, options?: CallOptions): Promise<QuestionResponse> {
+    try {
+      const data = await api.questions.getForProduct(productId, toParams(query), options);
+      return { success: true, data };
+    } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
+      return failure(error, 'Failed to fetch questions');
+    }
+  },
+
+  async askQuestion(productId: string, question: string): Promise<QuestionResponse> {
+    try {
+      const created = await api.questions.ask(productId, question);
+      return { success: true, data: { question: created } };
+    } catch (error) {
+      return failure(error, 'Failed to submit question');
+    }
+  },
+
+  async getAdminQueue(query: QuestionQuery = {}, options?: CallOptions): Promise<QuestionResponse> {
+    try {
+      const data = await api.questions.getAdminQueue(toParams(query), options);
+      return { success: true, data };
+    } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
+      return failure(error, 'Failed to fetch questions');
+    }
+  },
+
+  async answerQuestion(questionId: string, answer: string): Promise<QuestionResponse> {
+    try {
+      const question = await api.questions.answer(questionId, answer);
+      return { success: true, data: { question } };
+    } catch (error) {
+      return failure(error, 'Failed to save answer');
+    }
+  },
+};
+
+export default questionService;
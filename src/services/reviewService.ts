@@ -0,0 +1,113 @@
+import api, { ApiError, CallOptions, Pagination, ReviewInput, ReviewSort, ReviewSummary } from '../config/api';
+import { Order, Review } from '../store';
+
+export interface ReviewQuery {
+  page?: number;
+  limit?: number;
+  sort?: ReviewSort;
+  status?: Review['status'];
+}
+
+export interface ReviewResponse {
+  success: boolean;
+  data?: {
+    review?: Review;
+    reviews?: Review[];
+    pagination?: Pagination;
+    summary?: ReviewSummary;
+  };
+  message?: string;
+  error?: ApiError;
+}
+
+const toParams = (query: ReviewQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.append(key, String(value));
+  });
+  return params;
+};
+
+const failure = (error: unknown, fallbackMessage: string): ReviewResponse => {
+  const apiError = ApiError.from(error, fallbackMessage);
+  return {
+    success: false,
+    message: apiError.message,
+    error: apiError,
+  };
+};
+
+// Order items may carry the full product or just its id
+const orderContains = (order: Order, productId: string) =>
+  order.items.some(item => {
+    const product = item.product as Order['items'][number]['product'] | string;
+    return (typeof product === 'string' ? product : product?.id) === productId;
+  });
+
+export const reviewService = {
+  async getProductReviews(productId: string, query: ReviewQuery = {}, options?: CallOptions): Promise<ReviewResponse> {
+    try {
+      const data = await api.reviews.getForProduct(productId, toParams(query), options);
+      return { success: true, data };
+    } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
+      return failure(error, 'Failed to fetch reviews');
+    }
+  },
+
+  async submitReview(productId: string, review: ReviewInput): Promise<ReviewResponse> {
+    try {
+      const created = await api.reviews.create(productId, review);
+      return { success: true, data: { review: created } };
+    } catch (error) {
+      return failure(error, 'Failed to submit review');
+    }
+  },
+
+  async voteHelpful(reviewId: string): Promise<ReviewResponse> {
+    try {
+      const review = await api.reviews.voteHelpful(reviewId);
+      return { success: true, data: { review } };
+    } catch (error) {
+      return failure(error, 'Failed to record vote');
+    }
+  },
+
+  async getModerationQueue(query: ReviewQuery = {}, options?: CallOptions): Promise<ReviewResponse> {
+    try {
+      const data = await api.reviews.getModerationQueue(toParams(query), options);
+      return { success: true, data };
+    } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
+      return failure(error, 'Failed to fetch reviews');
+    }
+  },
+
+  async moderateReview(reviewId: string, status: Review['status']): Promise<ReviewResponse> {
+    try {
+      const review = await api.reviews.moderate(reviewId, status);
+      return { success: true, data: { review } };
+    } catch (error) {
+      return failure(error, 'Failed to update review');
+    }
+  },
+
+  // Only customers who received the product may review it. The server
+  // enforces this too; checking here lets the page explain why the form
+  // is unavailable instead of failing on submit. Order history is paginated,
+  // so pages are read until a delivered order with the product turns up.
+  async canReview(productId: string, options?: CallOptions): Promise<boolean> {
+    try {
+      for (let page = 1; ; page++) {
+        const { orders, pagination } = await api.orders.getUserOrders(toParams({ page }), options);
+        if (orders.some(order => order.status === 'delivered' && orderContains(order, productId))) return true;
+        if (!pagination?.hasNextPage) return false;
+      }
+    } catch (error) {
+      if (ApiError.from(error).isAborted) throw error;
+      return false;
+    }
+  },
+};
+
+export default reviewService;
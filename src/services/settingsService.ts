@@ -0,0 +1,42 @@
+import api, { ApiError, CallOptions } from '../config/api';
+import { PricingSettings } from '../store';
+
+export interface SettingsResponse {
+  success: boolean;
+  data?: {
+    pricing?: PricingSettings;
+  };
+  message?: string;
+  error?: ApiError;
+}
+
+const failure = (error: unknown, fallbackMessage: string): SettingsResponse => {
+  const apiError = ApiError.from(error, fallbackMessage);
+  return {
+    success: false,
+    message: apiError.message,
+    error: apiError,
+  };
+};
+
+export const settingsService = {
+  async getPricingSettings(options?: CallOptions): Promise<SettingsResponse> {
+    try {
+      const pricing = await api.settings.getPricing(options);
+      return { success: true, data: { pricing } };
+    } catch (error) {
+      return failure(error, 'Failed to fetch settings');
+    }
+  },
+
+  async updatePricingSettings(pricing: PricingSettings): Promise<SettingsResponse> {
+    try {
+      const saved = await api.settings.updatePricing(pricing);
+      return { success: true, data: { pricing: saved } };
+    } catch (error) {
+      return failure(error, 'Failed to save settings');
+    }
+  },
+};
+
+export default settingsService;
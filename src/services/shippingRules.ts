@@ -0,0 +1,106 @@
+import type { CartItem, DeliveryEstimate, PricingSettings, ShippingMethodId, ShippingZone } from '../store';
+import { roundCents } from './money';
+
+// Prices the shipping methods offered at checkout from the store's settings.
+// The server charges the same rules when the order is placed.
+
+export interface ShippingQuote {
+  method: ShippingMethodId;
+  label: string;
+  cost: number;
+  estimate: DeliveryEstimate;
+}
+
+export const SHIPPING_METHOD_LABELS: Record<ShippingMethodId, string> = {
+  standard: 'Standard Shipping',
+  express: 'Express Shipping',
+  pickup: 'Local Pickup',
+};
+
+// Products without a weight count as weightless
+export const getCartWeight = (items: CartItem[]): number =>
+  items.reduce((total, item) => total + (item.product.weight ?? 0) * item.quantity, 0);
+
+export const findShippingZone = (zones: ShippingZone[], country?: string): ShippingZone | undefined => {
+  if (!country) return undefined;
+  const wanted = country.trim().toLowerCase();
+  return zones.find(zone => zone.countries.some(entry => entry.trim().toLowerCase() === wanted));
+};
+
+const getWeightSurcharge = (items: CartItem[], settings: PricingSettings): number => {
+  const extraKg = getCartWeight(items) - settings.includedWeightKg;
+  return extraKg > 0 ? Math.ceil(extraKg) * settings.weightRatePerKg : 0;
+};
+
+const addDays = (estimate: DeliveryEstimate, days: number): DeliveryEstimate => ({
+  minDays: estimate.minDays + days,
+  maxDays: estimate.maxDays + days,
+});
+
+// How long a method takes to the given country, zone delays included
+export const getDeliveryEstimate = (
+  method: ShippingMethodId,
+  settings: PricingSettings,
+  country?: string
+): DeliveryEstimate => {
+  if (method === 'pickup') {
+    return { minDays: settings.pickupReadyDays, maxDays: settings.pickupReadyDays };
+  }
+  const extraDays = findShippingZone(settings.shippingZones, country)?.extraDays ?? 0;
+  return addDays(method === 'express' ? settings.expressDelivery : settings.standardDelivery, extraDays);
+};
+
+// Methods available for the cart, standard first. `freeStandardShipping`
+// waives the whole standard charge, surcharges included.
+export const getShippingQuotes = (
+  items: CartItem[],
+  settings: PricingSettings,
+  country?: string,
+  freeStandardShipping = false
+): ShippingQuote[] => {
+  const zone = findShippingZone(settings.shippingZones, country);
+  const extras = getWeightSurcharge(items, settings) + (zone?.surcharge ?? 0);
+
+  const quotes: ShippingQuote[] = [
+    {
+      method: 'standard',
+      label: SHIPPING_METHOD_LABELS.standard,
+      cost: freeStandardShipping ? 0 : roundCents(settings.standardShippingRate + extras),
+      estimate: getDeliveryEstimate('standard', settings, country),
+    },
+    {
+      method: 'express',
+      label: SHIPPING_METHOD_LABELS.express,
+      cost: roundCents(settings.expressShippingRate + extras),
+      estimate: getDeliveryEstimate('express', settings, country),
+    },
+  ];
+  if (settings.localPickupEnabled) {
+    quotes.push({
+      method: 'pickup',
+      label: SHIPPING_METHOD_LABELS.pickup,
+      cost: 0,
+      estimate: getDeliveryEstimate('pickup', settings),
+    });
+  }
+  return quotes;
+};
+
+// "5-7 business days", or "Ready in 1 business day" for pickup
+export const formatDeliveryEstimate = (quote: Pick<ShippingQuote, 'method' | 'estimate'>): string => {
+  const { minDays, maxDays } = quote.estimate;
+  const days = minDays === maxDays ? `${maxDays}` : `${minDays}-${maxDays}`;
+  const unit = maxDays === 1 ? 'business day' : 'business days';
+  return quote.method === 'pickup' ? `Ready in ${days} ${unit}` : `${days} ${unit}`;
+};
+
+// The latest delivery date, counting weekdays only
+export const getEstimatedDeliveryDate = (estimate: DeliveryEstimate, from = new Date()): Date => {
+  const date = new Date(from);
+  let remaining = estimate.maxDays;
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    if (date.getDay() !== 0 && date.getDay() !== 6) remaining -= 1;
+  }
+  return date;
+};
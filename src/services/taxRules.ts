@@ -0,0 +1,49 @@
+import type { CartItem, PricingSettings, TaxLine, TaxRate } from '../store';
+import { getSubtotal, roundCents } from './money';
+
+// Works out sales tax from the store's regional rate table. The server
+// charges the same rules when the order is placed.
+
+// The parts of a shipping address tax depends on
+export interface TaxAddress {
+  country: string;
+  state?: string;
+  zipCode?: string;
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const getMatchingTaxRates = (rates: TaxRate[], address: TaxAddress): TaxRate[] =>
+  rates.filter(rate =>
+    sameText(rate.country, address.country) &&
+    (!rate.state || sameText(rate.state, address.state || '')) &&
+    (!rate.zipPrefix || (address.zipCode || '').trim().toUpperCase().startsWith(rate.zipPrefix.trim().toUpperCase()))
+  );
+
+export const isTaxExempt = (item: CartItem, settings: PricingSettings): boolean =>
+  settings.taxExemptCategories.some(category => sameText(category, item.product.category));
+
+// The discount is shared across lines by value, so exempt lines take their
+// share of it and it doesn't lower the taxable amount twice
+export const getTaxableAmount = (items: CartItem[], discount: number, settings: PricingSettings): number => {
+  const subtotal = getSubtotal(items);
+  if (subtotal === 0) return 0;
+  const taxable = getSubtotal(items.filter(item => !isTaxExempt(item, settings)));
+  return roundCents(Math.max(0, taxable - discount * (taxable / subtotal)));
+};
+
+// One line per matching rule. Without an address, or when no rule matches,
+// the store's default rate is charged as a single "Tax" line.
+export const calculateTaxLines = (
+  items: CartItem[],
+  discount: number,
+  settings: PricingSettings,
+  address?: TaxAddress
+): TaxLine[] => {
+  const taxable = getTaxableAmount(items, discount, settings);
+  const matching = address ? getMatchingTaxRates(settings.taxRates, address) : [];
+  const rates = matching.length > 0
+    ? matching.map(rate => ({ name: rate.name, rate: rate.rate }))
+    : [{ name: 'Tax', rate: settings.taxRate }];
+  return rates.map(rate => ({ ...rate, amount: roundCents(taxable * rate.rate) }));
+};
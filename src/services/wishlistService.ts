@@ -0,0 +1,54 @@
+import api, { ApiError, CallOptions } from '../config/api';
+import { Product } from '../store';
+
+export interface WishlistResponse {
+  success: boolean;
+  products: Product[];
+  error?: ApiError;
+}
+
+const failure = (error: unknown, fallbackMessage: string): WishlistResponse => ({
+  success: false,
+  products: [],
+  error: ApiError.from(error, fallbackMessage),
+});
+
+export const wishlistService = {
+  async getWishlist(options?: CallOptions): Promise<WishlistResponse> {
+    try {
+      const products = await api.wishlist.get(options);
+      return { success: true, products };
+    } catch (error) {
+      return failure(error, 'Failed to fetch wishlist');
+    }
+  },
+
+  async addItem(productId: string): Promise<WishlistResponse> {
+    try {
+      const products = await api.wishlist.add(productId);
+      return { success: true, products };
+    } catch (error) {
+      return failure(error, 'Failed to save item');
+    }
+  },
+
+  async removeItem(productId: string): Promise<WishlistResponse> {
+    try {
+      const products = await api.wishlist.remove(productId);
+      return { success: true, products };
+    } catch (error) {
+      return failure(error, 'Failed to remove saved item');
+    }
+  },
+
+  async mergeItems(productIds: string[]): Promise<WishlistResponse> {
+    try {
+      const products = await api.wishlist.merge(productIds);
+      return { success: true, products };
+    } catch (error) {
+      return failure(error, 'Failed to sync wishlist');
+    }
+  },
+};
+
+export default wishlistService;
@@ -1,9 +1,19 @@
 import { create } from 'zustand';
-import { devtools, persist } from 'zustand/middleware';
-import productService from '../services/productService';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+import productService, { ProductFilters } from '../services/productService';
 import categoryService from '../services/categoryService';
 import authService from '../services/authService';
 import orderService from '../services/orderService';
+import wishlistService from '../services/wishlistService';
+import cartService from '../services/cartService';
+import couponService from '../services/couponService';
+import settingsService from '../services/settingsService';
+import { ApiError, CallOptions, Pagination, ProductFacets, ProductListPayload } from '../config/api';
+import queryCache, { queryKeys, queryTimes } from '../services/queryCache';
+import { computeProductFacets } from '../services/productFacets';
+import { cartLineId, getCartLineId, getDefaultVariant, getItemPrice } from '../services/productVariants';
+import { getAvailableQuantity, isSoldOut, mergeCartIssues, reconcileCartItems } from '../services/cartValidation';
+import { DEFAULT_PRICING_SETTINGS } from '../services/pricing';
 
 // Types
 export interface Product {
@@ -19,15 +29,42 @@ export interface Product {
   specifications: Record<string, string>;
   inStock: boolean;
   stockCount: number;
+  // In kilograms; used for weight-based shipping rates
+  weight?: number;
   rating: number;
   reviewCount: number;
   featured: boolean;
   createdAt: string;
+  // Option axes such as Storage or Color; set together with `variants`
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+}
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// A purchasable combination of option values. Its price, condition, stock
+// and images replace the product's own when it is selected.
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  // Option name -> value, one entry per product option
+  options: Record<string, string>;
+  price: number;
+  originalPrice?: number;
+  condition: Product['condition'];
+  stockCount: number;
+  // Falls back to the product images when empty
+  images?: string[];
 }
 
 export interface CartItem {
   product: Product;
   quantity: number;
+  // Set for products with variants; the line is keyed by it
+  variant?: ProductVariant;
 }
 
 export interface User {
@@ -42,18 +79,84 @@ export interface Order {
   userId: string;
   items: CartItem[];
   total: number;
+  // Amounts the order was placed with; missing on older orders
+  subtotal?: number;
+  shippingCost?: number;
+  tax?: number;
+  taxLines?: TaxLine[];
+  shippingMethod?: ShippingMethodId;
+  // Delivery window and pickup location quoted at checkout, kept so later
+  // changes to the shipping settings don't rewrite what the customer was told
+  deliveryEstimate?: DeliveryEstimate;
+  pickupAddress?: string;
+  // Promo code redeemed on the order and the amount it took off
+  couponCode?: string;
+  discount?: number;
   status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  // Set by the server as the card payment goes through
+  paymentStatus?: 'pending' | 'paid' | 'failed' | 'refunded';
   shippingAddress: {
     name: string;
+    email?: string;
     address: string;
     city: string;
+    state?: string;
     zipCode: string;
     country: string;
   };
+  // Signed by the server when the order is placed. Lets whoever holds it
+  // (such as a guest on the confirmation page) view the order without
+  // signing in.
+  lookupToken?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// What the checkout wizard has collected so far, minus card details
+export interface CheckoutDetails {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+  shippingMethod: ShippingMethodId;
+}
+
+export interface Review {
+  id: string;
+  productId: string;
+  // Shown alongside the review in the moderation queue
+  productName?: string;
+  userId: string;
+  userName: string;
+  rating: number;
+  title: string;
+  body: string;
+  status: 'pending' | 'approved' | 'rejected';
+  helpfulCount: number;
+  // Set when the signed-in user has already voted this review helpful
+  votedHelpful?: boolean;
+  verifiedPurchase: boolean;
+  createdAt: string;
+}
+
+export interface ProductQuestion {
+  id: string;
+  productId: string;
+  // Shown alongside the question in the admin queue
+  productName?: string;
+  userName: string;
+  question: string;
+  answer?: string;
+  answeredBy?: string;
+  answeredAt?: string;
+  createdAt: string;
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -63,50 +166,334 @@ export interface Category {
   productCount: number;
 }
 
+export interface Coupon {
+  id: string;
+  // Stored upper-case; codes are matched case-insensitively
+  code: string;
+  description?: string;
+  type: 'percentage' | 'fixed' | 'free_shipping';
+  // Percent off for 'percentage', amount off for 'fixed'; unused for free shipping
+  value: number;
+  // When set, only lines in these categories or from these brands are discounted
+  categories?: string[];
+  brands?: string[];
+  // Cart subtotal needed before the code applies
+  minimumSpend?: number;
+  expiresAt?: string;
+  // Total redemptions allowed across all customers; unlimited when unset
+  usageLimit?: number;
+  usageCount: number;
+  active: boolean;
+  createdAt: string;
+}
+
+// Store-wide pricing, edited under Admin > Settings > Shipping and Tax
+export interface PricingSettings {
+  // Orders whose discounted subtotal reaches this get free standard shipping
+  freeShippingThreshold: number;
+  standardShippingRate: number;
+  expressShippingRate: number;
+  standardDelivery: DeliveryEstimate;
+  expressDelivery: DeliveryEstimate;
+  localPickupEnabled: boolean;
+  pickupAddress: string;
+  // Business days until a pickup order is ready
+  pickupReadyDays: number;
+  // Parcels heavier than this pay `weightRatePerKg` for every started
+  // kilogram above it, on standard and express shipping
+  includedWeightKg: number;
+  weightRatePerKg: number;
+  shippingZones: ShippingZone[];
+  // Sales tax as a fraction, e.g. 0.08. Charged when no rule in `taxRates`
+  // matches the address, and for estimates before an address is entered.
+  taxRate: number;
+  taxRates: TaxRate[];
+  // Products in these categories are never taxed
+  taxExemptCategories: string[];
+}
+
+export type ShippingMethodId = 'standard' | 'express' | 'pickup';
+
+// Business days from placing the order to delivery
+export interface DeliveryEstimate {
+  minDays: number;
+  maxDays: number;
+}
+
+// Countries that cost more and take longer to ship to. The surcharge and
+// extra days are added to standard and express shipping.
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[];
+  surcharge: number;
+  extraDays: number;
+}
+
+// A regional sales tax. Every rule matching the shipping address is charged,
+// so a state rate and a local zip-prefix rate add up.
+export interface TaxRate {
+  id: string;
+  // Shown in the tax breakdown, e.g. "California State Tax"
+  name: string;
+  country: string;
+  // Leave out to cover the whole country (or state)
+  state?: string;
+  zipPrefix?: string;
+  rate: number;
+}
+
+// One line of an order's tax breakdown
+export interface TaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
 // Store interfaces
+
+// `force` bypasses the query cache and goes to the network
+export interface FetchOptions extends CallOptions {
+  force?: boolean;
+}
+
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   loading: boolean;
+  error: ApiError | null;
   login: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
   register: (email: string, password: string, name: string) => Promise<boolean>;
   checkAuth: () => Promise<void>;
 }
 
+// A change found when the cart was checked against the latest product data
+export interface CartIssue {
+  lineId: string;
+  type: 'price_changed' | 'quantity_reduced' | 'sold_out' | 'removed';
+  productName: string;
+  previousPrice?: number;
+  price?: number;
+  requestedQuantity?: number;
+  availableQuantity?: number;
+}
+
 interface CartState {
   items: CartItem[];
   isOpen: boolean;
-  addItem: (product: Product, quantity?: number) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  issues: CartIssue[];
+  validating: boolean;
+  // Promo code accepted by the server. Its discount is recomputed from the
+  // current lines, so it can lapse (and come back) as the cart changes.
+  coupon: Coupon | null;
+  couponError: string | null;
+  applyingCoupon: boolean;
+  // Signed-in carts are mirrored to the account
+  syncing: boolean;
+  syncError: string | null;
+  addItem: (product: Product, quantity?: number, variant?: ProductVariant) => void;
+  // Lines are identified by getCartLineId: the product id, plus the
+  // variant id for products with variants
+  removeItem: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
   toggleCart: () => void;
+  // Reloads every product in the cart, applying price and stock changes.
+  // Resolves with the issues found by this check.
+  revalidate: (options?: CallOptions) => Promise<CartIssue[]>;
+  dismissIssues: () => void;
+  // Adopts the account's cart. With `mergeGuestCart`, used right after
+  // signing in, a guest cart is first merged into it.
+  syncWithAccount: (options?: { mergeGuestCart?: boolean }) => Promise<void>;
+  // Pushes the local cart to the account; called after local changes
+  saveToAccount: () => Promise<void>;
+  applyCoupon: (code: string) => Promise<boolean>;
+  removeCoupon: () => void;
+  // Lines that can't be checked out until they are removed
+  getSoldOutItems: () => CartItem[];
   getTotalItems: () => number;
   getTotalPrice: () => number;
 }
 
+export interface WishlistItem {
+  product: Product;
+  addedAt: string;
+}
+
+interface WishlistState {
+  items: WishlistItem[];
+  syncing: boolean;
+  error: string | null;
+  isInWishlist: (productId: string) => boolean;
+  addItem: (product: Product) => Promise<void>;
+  removeItem: (productId: string) => Promise<void>;
+  toggleItem: (product: Product) => Promise<void>;
+  moveToCart: (productId: string) => Promise<void>;
+  // "Save for later" from the cart
+  moveFromCart: (lineId: string) => Promise<void>;
+  // Adopts the account's wishlist. With `mergeGuestItems`, used right after
+  // signing in, guest items are first merged into it.
+  syncWithAccount: (options?: { mergeGuestItems?: boolean }) => Promise<void>;
+  clearWishlist: () => void;
+}
+
+interface CompareState {
+  items: Product[];
+  isInCompare: (productId: string) => boolean;
+  isFull: () => boolean;
+  // Returns false when the tray is already full
+  addItem: (product: Product) => boolean;
+  removeItem: (productId: string) => void;
+  toggleItem: (product: Product) => boolean;
+  // Swaps in fresher copies of products already in the tray
+  refreshItems: (products: Product[]) => void;
+  clearCompare: () => void;
+}
+
+interface SettingsState {
+  pricing: PricingSettings;
+  fetchPricing: (options?: CallOptions) => Promise<void>;
+  updatePricing: (pricing: PricingSettings) => Promise<ApiError | null>;
+}
+
+interface CheckoutState {
+  details: CheckoutDetails;
+  // Idempotency key for placing the order, and the order payload it was
+  // issued for
+  orderAttempt: { key: string; payload: string } | null;
+  updateDetails: (changes: Partial<CheckoutDetails>) => void;
+  // The key to place the order with: the current attempt's while the payload
+  // is unchanged, so retries can't place it twice, otherwise a new one
+  getOrderAttemptKey: (payload: string) => string;
+  resetCheckout: () => void;
+}
+
+interface SearchHistoryState {
+  // Most recent first
+  recentSearches: string[];
+  addRecentSearch: (query: string) => void;
+  removeRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+}
+
+export interface ProductListFilters {
+  category: string;
+  priceRange: [number, number];
+  condition: string[];
+  brand: string[];
+  inStock: boolean;
+}
+
+export type ProductSort = 'name' | 'price-low' | 'price-high' | 'rating' | 'newest';
+
+export const PRICE_RANGE_MAX = 5000;
+
+export const defaultProductFilters: ProductListFilters = {
+  category: '',
+  priceRange: [0, PRICE_RANGE_MAX],
+  condition: [],
+  brand: [],
+  inStock: false,
+};
+
+const productSorts: ProductSort[] = ['name', 'price-low', 'price-high', 'rating', 'newest'];
+
+export const defaultProductSort: ProductSort = 'newest';
+
+// Everything that describes a product list view and can be bookmarked
+export interface ProductListView {
+  filters: ProductListFilters;
+  sortBy: ProductSort;
+  searchQuery: string;
+  page: number;
+}
+
+const parseNumber = (value: string | null, fallback: number, min = 0) => {
+  if (value === null || value.trim() === '') return fallback;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min ? number : fallback;
+};
+
+// Reads a view from a query string such as
+// `?category=Phones&maxPrice=500&condition=refurbished&brand=Apple&sort=price-low`.
+// Missing or malformed values fall back to the defaults.
+export const parseProductSearchParams = (params: URLSearchParams): ProductListView => {
+  const sort = params.get('sort') as ProductSort | null;
+  return {
+    filters: {
+      category: params.get('category') || '',
+      priceRange: [
+        parseNumber(params.get('minPrice'), 0),
+        parseNumber(params.get('maxPrice'), PRICE_RANGE_MAX),
+      ],
+      condition: params.getAll('condition').filter(Boolean),
+      brand: params.getAll('brand').filter(Boolean),
+      inStock: params.get('inStock') === 'true',
+    },
+    sortBy: sort && productSorts.includes(sort) ? sort : defaultProductSort,
+    searchQuery: params.get('search') || '',
+    page: Math.floor(parseNumber(params.get('page'), 1, 1)),
+  };
+};
+
+// The inverse of parseProductSearchParams; defaults are left out to keep URLs short
+export const toProductSearchParams = (view: ProductListView): URLSearchParams => {
+  const { filters, sortBy, searchQuery, page } = view;
+  const params = new URLSearchParams();
+  if (searchQuery) params.set('search', searchQuery);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.priceRange[0] > 0) params.set('minPrice', String(filters.priceRange[0]));
+  if (filters.priceRange[1] < PRICE_RANGE_MAX) params.set('maxPrice', String(filters.priceRange[1]));
+  filters.condition.forEach(condition => params.append('condition', condition));
+  filters.brand.forEach(brand => params.append('brand', brand));
+  if (filters.inStock) params.set('inStock', 'true');
+  if (sortBy !== defaultProductSort) params.set('sort', sortBy);
+  if (page > 1) params.set('page', String(page));
+  return params;
+};
+
+export interface FetchProductsOptions extends FetchOptions {
+  // Add the page to the current list instead of replacing it (infinite scroll)
+  append?: boolean;
+}
+
 interface ProductState {
+  // The unfiltered list the home page, admin pages and detail lookups read
   products: Product[];
   categories: Category[];
   loading: boolean;
+  // The filtered, sorted page of the catalog listing. Kept apart from
+  // `products` so browsing the catalog doesn't change what other pages show.
+  pageProducts: Product[];
+  pageLoading: boolean;
+  loadingMore: boolean;
   error: string | null;
-  filters: {
-    category: string;
-    priceRange: [number, number];
-    condition: string[];
-    brand: string[];
-    inStock: boolean;
-  };
-  sortBy: 'name' | 'price-low' | 'price-high' | 'rating' | 'newest';
+  filters: ProductListFilters;
+  sortBy: ProductSort;
   searchQuery: string;
-  fetchProducts: (filters?: any) => Promise<void>;
-  fetchCategories: () => Promise<void>;
-  fetchProductById: (id: string) => Promise<Product | null>;
+  pageSize: number;
+  pagination: Pagination | null;
+  // Counts per brand, condition, category and price bucket for the current results
+  facets: ProductFacets | null;
+  // The server query behind `pageProducts`, so further pages can be requested
+  lastQuery: ProductFilters;
+  // The whole catalog, searched on the client (see services/productSearch)
+  searchCatalog: Product[];
+  searchCatalogLoading: boolean;
+  fetchProducts: (filters?: ProductFilters, options?: FetchOptions) => Promise<void>;
+  fetchProductPage: (filters?: ProductFilters, options?: FetchProductsOptions) => Promise<void>;
+  fetchNextPage: (options?: FetchOptions) => Promise<void>;
+  fetchSearchCatalog: (options?: FetchOptions) => Promise<void>;
+  fetchCategories: (options?: FetchOptions) => Promise<void>;
+  fetchProductById: (id: string, options?: FetchOptions) => Promise<Product | null>;
+  fetchCategoryBySlug: (slug: string, options?: FetchOptions) => Promise<Category | null>;
   updateFilters: (filters: Partial<ProductState['filters']>) => void;
   setSortBy: (sortBy: ProductState['sortBy']) => void;
   setSearchQuery: (query: string) => void;
-  getFilteredProducts: () => Product[];
+  // Replaces filters, sort and search with the ones encoded in the URL
+  hydrateFromSearchParams: (params: URLSearchParams) => ProductListView;
+  getProductQuery: (page?: number) => ProductFilters;
 }
 
 interface AdminState {
@@ -118,7 +505,7 @@ interface AdminState {
     totalProducts: number;
     totalUsers: number;
   };
-  fetchOrders: () => Promise<void>;
+  fetchOrders: (options?: CallOptions) => Promise<void>;
   updateOrderStatus: (orderId: string, status: Order['status']) => Promise<void>;
   addProduct: (product: Omit<Product, 'id' | 'createdAt'>) => Promise<void>;
   updateProduct: (id: string, product: Partial<Product>) => Promise<void>;
@@ -136,9 +523,10 @@ export const useAuthStore = create<AuthState>()(
         user: null,
         isAuthenticated: false,
         loading: false,
+        error: null,
         
         login: async (email: string, password: string) => {
-          set({ loading: true });
+          set({ loading: true, error: null });
           try {
             const response = await authService.login(email, password);
             if (response.success && response.data) {
@@ -147,12 +535,14 @@ export const useAuthStore = create<AuthState>()(
                 isAuthenticated: true,
                 loading: false 
               });
+              useWishlistStore.getState().syncWithAccount({ mergeGuestItems: true });
+              useCartStore.getState().syncWithAccount({ mergeGuestCart: true });
               return true;
             }
-            set({ loading: false });
+            set({ loading: false, error: response.error ?? null });
             return false;
           } catch (error) {
-            set({ loading: false });
+            set({ loading: false, error: ApiError.from(error) });
             return false;
           }
         },
@@ -160,10 +550,15 @@ export const useAuthStore = create<AuthState>()(
         logout: async () => {
           await authService.logout();
           set({ user: null, isAuthenticated: false });
+          // Saved items and the cart belong to the account, not to whoever
+          // uses the browser next
+          useWishlistStore.getState().clearWishlist();
+          useCartStore.getState().clearCart();
+          useCheckoutStore.getState().resetCheckout();
         },
         
         register: async (email: string, password: string, name: string) => {
-          set({ loading: true });
+          set({ loading: true, error: null });
           try {
             const response = await authService.register(name, email, password);
             if (response.success && response.data) {
@@ -172,12 +567,14 @@ export const useAuthStore = create<AuthState>()(
                 isAuthenticated: true,
                 loading: false 
               });
+              useWishlistStore.getState().syncWithAccount({ mergeGuestItems: true });
+              useCartStore.getState().syncWithAccount({ mergeGuestCart: true });
               return true;
             }
-            set({ loading: false });
+            set({ loading: false, error: response.error ?? null });
             return false;
           } catch (error) {
-            set({ loading: false });
+            set({ loading: false, error: ApiError.from(error) });
             return false;
           }
         },
@@ -195,6 +592,8 @@ export const useAuthStore = create<AuthState>()(
                 user: response.data.user, 
                 isAuthenticated: true 
               });
+              useWishlistStore.getState().syncWithAccount();
+              useCartStore.getState().syncWithAccount();
             } else {
               set({ user: null, isAuthenticated: false });
             }
@@ -215,128 +614,765 @@ export const useAuthStore = create<AuthState>()(
 );
 
 // Cart Store
+
+// Only the latest cart check may apply its results
+let latestCartValidation = 0;
+
+// Changes to a signed-in cart are pushed shortly after the last one, so a
+// burst of quantity clicks becomes a single request
+const CART_SYNC_DELAY_MS = 500;
+let cartSyncTimer: ReturnType<typeof setTimeout> | undefined;
+// Bumped on every local change. A server copy is only adopted when nothing
+// changed while it was in flight; otherwise the newer change is pushed again.
+let cartRevision = 0;
+let accountCartInFlight = false;
+
+const scheduleCartSync = () => {
+  cartRevision += 1;
+  clearTimeout(cartSyncTimer);
+  if (!useAuthStore.getState().isAuthenticated) return;
+  cartSyncTimer = setTimeout(() => useCartStore.getState().saveToAccount(), CART_SYNC_DELAY_MS);
+};
+
 export const useCartStore = create<CartState>()(
   devtools(
     persist(
       (set, get) => ({
         items: [],
         isOpen: false,
-        addItem: (product: Product, quantity = 1) => {
+        issues: [],
+        validating: false,
+        coupon: null,
+        couponError: null,
+        applyingCoupon: false,
+        syncing: false,
+        syncError: null,
+        addItem: (product: Product, quantity = 1, variant?: ProductVariant) => {
           const items = get().items;
-          const existingItem = items.find(item => item.product.id === product.id);
+          const lineId = cartLineId(product.id, variant?.id);
+          const existingItem = items.find(item => getCartLineId(item) === lineId);
+          const available = getAvailableQuantity({ product, quantity, variant });
+          if (available === 0) return;
           
           if (existingItem) {
             set({
               items: items.map(item =>
-                item.product.id === product.id
-                  ? { ...item, quantity: item.quantity + quantity }
+                getCartLineId(item) === lineId
+                  ? { ...item, product, ...(variant && { variant }), quantity: Math.min(item.quantity + quantity, available) }
                   : item
               ),
             });
           } else {
-            set({ items: [...items, { product, quantity }] });
+            set({ items: [...items, { product, quantity: Math.min(quantity, available), ...(variant && { variant }) }] });
           }
+          scheduleCartSync();
         },
-        removeItem: (productId: string) => {
+        removeItem: (lineId: string) => {
           set({
-            items: get().items.filter(item => item.product.id !== productId),
+            items: get().items.filter(item => getCartLineId(item) !== lineId),
+            issues: get().issues.filter(issue => issue.lineId !== lineId),
           });
+          scheduleCartSync();
         },
-        updateQuantity: (productId: string, quantity: number) => {
+        updateQuantity: (lineId: string, quantity: number) => {
           if (quantity <= 0) {
-            get().removeItem(productId);
+            get().removeItem(lineId);
             return;
           }
           
           set({
             items: get().items.map(item =>
-              item.product.id === productId
-                ? { ...item, quantity }
+              getCartLineId(item) === lineId
+                ? { ...item, quantity: Math.min(quantity, Math.max(1, getAvailableQuantity(item))) }
                 : item
             ),
           });
+          scheduleCartSync();
         },
         clearCart: () => {
-          set({ items: [] });
+          set({ items: [], issues: [], coupon: null, couponError: null });
+          scheduleCartSync();
         },
         toggleCart: () => {
           set({ isOpen: !get().isOpen });
         },
+        revalidate: async (options?: CallOptions) => {
+          const productIds = Array.from(new Set(get().items.map(item => item.product.id)));
+          if (productIds.length === 0) return [];
+
+          const requestId = ++latestCartValidation;
+          set({ validating: true });
+          const loaded = await Promise.all(productIds.map(async (id): Promise<[string, Product | null | undefined]> => {
+            try {
+              const response = await productService.getProductById(id, options);
+              return [id, response.data.product];
+            } catch (error) {
+              // A missing product is gone for good; other failures leave the line as it was
+              return [id, ApiError.from(error).isNotFound ? null : undefined];
+            }
+          }));
+          if (requestId !== latestCartValidation) return [];
+          if (options?.signal?.aborted) {
+            set({ validating: false });
+            return [];
+          }
+
+          const latest = new Map<string, Product | null>();
+          loaded.forEach(([id, product]) => {
+            if (product !== undefined) latest.set(id, product);
+          });
+          const { items, issues } = reconcileCartItems(get().items, latest);
+          set({
+            items,
+            issues: mergeCartIssues(get().issues, issues, items),
+            validating: false,
+          });
+          return issues;
+        },
+        dismissIssues: () => {
+          set({ issues: [] });
+        },
+        syncWithAccount: async ({ mergeGuestCart = false } = {}) => {
+          clearTimeout(cartSyncTimer);
+          const revision = cartRevision;
+          accountCartInFlight = true;
+          set({ syncing: true, syncError: null });
+          // Only a guest cart is merged, once, at sign-in. The merge keeps
+          // every line from both sides, so merging the persisted copy of an
+          // account cart would bring back lines removed on another device;
+          // on a reload the account's cart replaces it instead.
+          const guestItems = mergeGuestCart ? get().items : [];
+          const response = guestItems.length > 0
+            ? await cartService.mergeCart(guestItems)
+            : await cartService.getCart();
+          accountCartInFlight = false;
+
+          if (guestItems.length > 0 && revision !== cartRevision) {
+            // The guest cart changed mid-merge; merge again so neither side is lost
+            await get().syncWithAccount({ mergeGuestCart: true });
+            return;
+          }
+          if (response.success) {
+            set({ items: response.items, syncing: false });
+          } else {
+            set({ syncing: false, syncError: response.error?.message ?? 'Failed to sync cart' });
+          }
+        },
+        saveToAccount: async () => {
+          if (!useAuthStore.getState().isAuthenticated || accountCartInFlight) return;
+          const revision = cartRevision;
+          set({ syncing: true, syncError: null });
+          const response = await cartService.replaceCart(get().items);
+          if (revision !== cartRevision) {
+            // A newer change is already queued (or the shopper signed out)
+            set({ syncing: false });
+            return;
+          }
+
+          if (response.success) {
+            set({ items: response.items, syncing: false });
+          } else {
+            set({ syncing: false, syncError: response.error?.message ?? 'Failed to save cart' });
+          }
+        },
+        applyCoupon: async (code: string) => {
+          set({ applyingCoupon: true, couponError: null });
+          const response = await couponService.validateCoupon(code, get().items);
+          if (response.success && response.data?.coupon) {
+            set({ coupon: response.data.coupon, applyingCoupon: false });
+            return true;
+          }
+          set({ applyingCoupon: false, couponError: response.message || 'Failed to apply code' });
+          return false;
+        },
+        removeCoupon: () => {
+          set({ coupon: null, couponError: null });
+        },
+        getSoldOutItems: () => {
+          return get().items.filter(isSoldOut);
+        },
         getTotalItems: () => {
           return get().items.reduce((total, item) => total + item.quantity, 0);
         },
         getTotalPrice: () => {
-          return get().items.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+          return get().items.reduce((total, item) => total + (getItemPrice(item) * item.quantity), 0);
         },
       }),
       {
         name: 'cart-storage',
+        partialize: (state) => ({ items: state.items, isOpen: state.isOpen, coupon: state.coupon }),
+      }
+    )
+  )
+);
+
+// Wishlist Store
+
+// Keeps the date an item was first saved when the server list replaces ours
+const toWishlistItems = (products: Product[], current: WishlistItem[]): WishlistItem[] =>
+  products.map(product => ({
+    product,
+    addedAt: current.find(item => item.product.id === product.id)?.addedAt ?? new Date().toISOString(),
+  }));
+
+// Guests keep their wishlist in localStorage only; signed-in changes are
+// applied locally first and rolled back if the server rejects them
+export const useWishlistStore = create<WishlistState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        items: [],
+        syncing: false,
+        error: null,
+        isInWishlist: (productId: string) => {
+          return get().items.some(item => item.product.id === productId);
+        },
+        addItem: async (product: Product) => {
+          if (get().isInWishlist(product.id)) return;
+          set({
+            items: [{ product, addedAt: new Date().toISOString() }, ...get().items],
+            error: null,
+          });
+          if (!useAuthStore.getState().isAuthenticated) return;
+
+          const response = await wishlistService.addItem(product.id);
+          if (response.success) {
+            set({ items: toWishlistItems(response.products, get().items) });
+          } else {
+            set({
+              items: get().items.filter(item => item.product.id !== product.id),
+              error: response.error?.message ?? 'Failed to save item',
+            });
+          }
+        },
+        removeItem: async (productId: string) => {
+          const removed = get().items.find(item => item.product.id === productId);
+          if (!removed) return;
+          set({
+            items: get().items.filter(item => item.product.id !== productId),
+            error: null,
+          });
+          if (!useAuthStore.getState().isAuthenticated) return;
+
+          const response = await wishlistService.removeItem(productId);
+          if (response.success) {
+            set({ items: toWishlistItems(response.products, get().items) });
+          } else {
+            set({
+              items: get().isInWishlist(productId) ? get().items : [removed, ...get().items],
+              error: response.error?.message ?? 'Failed to remove saved item',
+            });
+          }
+        },
+        toggleItem: async (product: Product) => {
+          if (get().isInWishlist(product.id)) {
+            await get().removeItem(product.id);
+          } else {
+            await get().addItem(product);
+          }
+        },
+        moveToCart: async (productId: string) => {
+          const item = get().items.find(entry => entry.product.id === productId);
+          if (!item) return;
+          // The wishlist holds products, not variants
+          useCartStore.getState().addItem(item.product, 1, getDefaultVariant(item.product));
+          await get().removeItem(productId);
+        },
+        moveFromCart: async (lineId: string) => {
+          const cartItem = useCartStore.getState().items.find(entry => getCartLineId(entry) === lineId);
+          if (!cartItem) return;
+          useCartStore.getState().removeItem(lineId);
+          await get().addItem(cartItem.product);
+        },
+        syncWithAccount: async ({ mergeGuestItems = false } = {}) => {
+          set({ syncing: true, error: null });
+          // Guest items are merged only at sign-in. On a reload the local list
+          // is a possibly stale copy of the account's, and merging it would
+          // bring back items removed on another device.
+          const guestIds = mergeGuestItems ? get().items.map(item => item.product.id) : [];
+          const response = guestIds.length > 0
+            ? await wishlistService.mergeItems(guestIds)
+            : await wishlistService.getWishlist();
+          if (response.success) {
+            set({ items: toWishlistItems(response.products, get().items), syncing: false });
+          } else {
+            set({ syncing: false, error: response.error?.message ?? 'Failed to sync wishlist' });
+          }
+        },
+        clearWishlist: () => {
+          set({ items: [], error: null });
+        },
+      }),
+      {
+        name: 'wishlist-storage',
+        partialize: (state) => ({ items: state.items }),
+      }
+    )
+  )
+);
+
+// Compare Store
+
+export const MAX_COMPARE_ITEMS = 4;
+
+export const useCompareStore = create<CompareState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        items: [],
+        isInCompare: (productId: string) => {
+          return get().items.some(product => product.id === productId);
+        },
+        isFull: () => {
+          return get().items.length >= MAX_COMPARE_ITEMS;
+        },
+        addItem: (product: Product) => {
+          if (get().isInCompare(product.id)) return true;
+          if (get().isFull()) return false;
+          set({ items: [...get().items, product] });
+          return true;
+        },
+        removeItem: (productId: string) => {
+          set({ items: get().items.filter(product => product.id !== productId) });
+        },
+        toggleItem: (product: Product) => {
+          if (get().isInCompare(product.id)) {
+            get().removeItem(product.id);
+            return true;
+          }
+          return get().addItem(product);
+        },
+        refreshItems: (products: Product[]) => {
+          const byId = new Map(products.map(product => [product.id, product]));
+          set({ items: get().items.map(product => byId.get(product.id) || product) });
+        },
+        clearCompare: () => {
+          set({ items: [] });
+        },
+      }),
+      {
+        name: 'compare-storage',
+      }
+    )
+  )
+);
+
+// Settings Store
+
+// The last known settings are persisted so totals are right before the
+// first fetch completes
+export const useSettingsStore = create<SettingsState>()(
+  devtools(
+    persist(
+      (set) => ({
+        pricing: DEFAULT_PRICING_SETTINGS,
+        fetchPricing: async (options) => {
+          const response = await settingsService.getPricingSettings(options);
+          if (response.success && response.data?.pricing) {
+            set({ pricing: { ...DEFAULT_PRICING_SETTINGS, ...response.data.pricing } });
+          }
+        },
+        updatePricing: async (pricing) => {
+          const response = await settingsService.updatePricingSettings(pricing);
+          if (!response.success || !response.data?.pricing) {
+            return response.error ?? null;
+          }
+          set({ pricing: { ...DEFAULT_PRICING_SETTINGS, ...response.data.pricing } });
+          return null;
+        },
+      }),
+      {
+        name: 'settings-storage',
+        // Settings saved by an older version may lack newer fields
+        merge: (persisted, current) => ({
+          ...current,
+          pricing: { ...current.pricing, ...(persisted as Partial<SettingsState> | undefined)?.pricing },
+        }),
+      }
+    )
+  )
+);
+
+// Checkout Store
+
+const emptyCheckoutDetails: CheckoutDetails = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'United States',
+  shippingMethod: 'standard',
+};
+
+// Kept for the browser tab only, so a refresh mid-checkout doesn't lose the
+// customer's progress, or the key of an order that may already be placed
+export const useCheckoutStore = create<CheckoutState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        details: emptyCheckoutDetails,
+        orderAttempt: null,
+        updateDetails: (changes) => set(state => ({ details: { ...state.details, ...changes } })),
+        getOrderAttemptKey: (payload) => {
+          const { orderAttempt } = get();
+          if (orderAttempt?.payload === payload) return orderAttempt.key;
+          const key = crypto.randomUUID();
+          set({ orderAttempt: { key, payload } });
+          return key;
+        },
+        resetCheckout: () => set({ details: emptyCheckoutDetails, orderAttempt: null }),
+      }),
+      {
+        name: 'checkout-progress',
+        storage: createJSONStorage(() => sessionStorage),
+      }
+    )
+  )
+);
+
+// Search History Store
+
+const MAX_RECENT_SEARCHES = 5;
+
+export const useSearchHistoryStore = create<SearchHistoryState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        recentSearches: [],
+        addRecentSearch: (query: string) => {
+          const trimmed = query.trim();
+          if (!trimmed) return;
+          set({
+            recentSearches: [
+              trimmed,
+              ...get().recentSearches.filter(search => search.toLowerCase() !== trimmed.toLowerCase()),
+            ].slice(0, MAX_RECENT_SEARCHES),
+          });
+        },
+        removeRecentSearch: (query: string) => {
+          set({ recentSearches: get().recentSearches.filter(search => search !== query) });
+        },
+        clearRecentSearches: () => {
+          set({ recentSearches: [] });
+        },
+      }),
+      {
+        name: 'search-history-storage',
       }
     )
   )
 );
 
 // Product Store
+
+// Only the most recent request for each list may write to the store, so a
+// slow response for an old filter can't overwrite a newer one
+let latestProductsRequest = 0;
+let latestPageRequest = 0;
+
+// Appends a page to the list, skipping products already shown (the catalog
+// can shift between page requests). With `replaceOnly`, refreshes the
+// products already in the list without adding new ones.
+const mergeProducts = (current: Product[], page: Product[], replaceOnly: boolean): Product[] => {
+  const byId = new Map(page.map(product => [product.id, product]));
+  const merged = current.map(product => byId.get(product.id) || product);
+  if (replaceOnly) return merged;
+
+  const seen = new Set(current.map(product => product.id));
+  return [...merged, ...page.filter(product => !seen.has(product.id))];
+};
+
+// Used when the API returns a bare list without pagination metadata
+const singlePage = (count: number): Pagination => ({
+  currentPage: 1,
+  totalPages: 1,
+  totalItems: count,
+  hasNextPage: false,
+  hasPrevPage: false,
+});
+
+// Whether the catalog page's facets came from the API. When they didn't,
+// they are counted again as the full product list changes.
+let pageFacetsFromApi = false;
+
+// Counted over the full product list rather than the page being shown;
+// unknown until that list has loaded
+const countFacets = (products: Product[], query: ProductFilters, categories: Category[]): ProductFacets | null =>
+  products.length > 0
+    ? computeProductFacets(products, query, categories.map(category => category.name))
+    : null;
+
+// Replaces the full product list; counted facets follow the list they were
+// counted over
+const setAllProducts = (products: Product[]) => {
+  const { pagination, lastQuery, categories } = useProductStore.getState();
+  useProductStore.setState({
+    products,
+    ...(pagination && !pageFacetsFromApi && { facets: countFacets(products, lastQuery, categories) }),
+  });
+};
+
+// Prefers the counts returned by the API with the page
+const resolveFacets = (
+  payload: ProductListPayload,
+  products: Product[],
+  query: ProductFilters,
+  categories: Category[]
+): ProductFacets | null => {
+  pageFacetsFromApi = !!payload.facets;
+  return payload.facets || countFacets(products, query, categories);
+};
+
+// The catalog is read in large pages; the cap keeps a huge catalog from
+// being pulled into the browser in full
+const SEARCH_CATALOG_PAGE_SIZE = 100;
+const SEARCH_CATALOG_MAX_PAGES = 10;
+
+// List responses already contain full products and categories, so seed the
+// per-item cache entries and let detail lookups skip the network. Fresh
+// responses overwrite; lists served from cache only fill in missing items.
+const seedProducts = (products: Product[], overwrite: boolean) => {
+  products.forEach(product => {
+    const key = queryKeys.product(product.id);
+    if (overwrite || queryCache.get(key) === undefined) {
+      queryCache.set(key, product, queryTimes.product.cacheTime);
+    }
+  });
+};
+
+const seedCategories = (categories: Category[], overwrite: boolean) => {
+  categories.forEach(category => {
+    const key = queryKeys.categoryBySlug(category.slug);
+    if (overwrite || queryCache.get(key) === undefined) {
+      queryCache.set(key, category, queryTimes.categories.cacheTime);
+    }
+  });
+};
+
+// Loads one product list response and seeds the per-item cache from it
+const loadProductList = (filters: ProductFilters, callOptions: CallOptions) =>
+  async (cacheSignal: AbortSignal): Promise<ProductListPayload> => {
+    const response = await productService.getProducts(filters, { ...callOptions, signal: cacheSignal });
+    seedProducts(response.data.products, true);
+    return response.data;
+  };
+
 export const useProductStore = create<ProductState>()(
   devtools((set, get) => ({
     products: [],
     categories: [],
     loading: false,
+    pageProducts: [],
+    pageLoading: false,
+    loadingMore: false,
     error: null,
-    filters: {
-      category: '',
-      priceRange: [0, 5000],
-      condition: [],
-      brand: [],
-      inStock: false,
-    },
-    sortBy: 'newest',
+    filters: defaultProductFilters,
+    sortBy: defaultProductSort,
     searchQuery: '',
+    pageSize: 12,
+    pagination: null,
+    facets: null,
+    lastQuery: {},
+    searchCatalog: [],
+    searchCatalogLoading: false,
     
-    fetchProducts: async (filters = {}) => {
+    fetchProducts: async (filters = {}, options = {}) => {
+      const { force, signal, ...callOptions } = options;
+      const requestId = ++latestProductsRequest;
       set({ loading: true, error: null });
       try {
-        const response = await productService.getProducts(filters);
-        if (response.success && response.data) {
-          set({ 
-            products: response.data.products,
-            loading: false 
-          });
-        } else {
-          set({ 
-            products: [],
-            loading: false,
-            error: 'Failed to fetch products'
-          });
-        }
-      } catch (error: any) {
+        const data = await queryCache.fetch<ProductListPayload>(
+          queryKeys.products(filters),
+          loadProductList(filters, callOptions),
+          {
+            ...queryTimes.products,
+            persist: true,
+            force,
+            signal,
+            onUpdate: (fresh) => {
+              if (requestId === latestProductsRequest) setAllProducts(fresh.products);
+            },
+          }
+        );
+        seedProducts(data.products, false);
+        if (requestId !== latestProductsRequest) return;
+        setAllProducts(data.products);
+        set({ loading: false });
+      } catch (error) {
+        if (requestId !== latestProductsRequest) return;
+        const apiError = ApiError.from(error, 'Failed to fetch products');
+        set({ loading: false, error: apiError.isAborted ? null : apiError.message });
+      }
+    },
+
+    fetchProductPage: async (filters = {}, options = {}) => {
+      const { force, signal, append, ...callOptions } = options;
+      const requestId = ++latestPageRequest;
+      set(append ? { loadingMore: true, error: null } : { pageLoading: true, error: null });
+      try {
+        const data = await queryCache.fetch<ProductListPayload>(
+          queryKeys.products(filters),
+          loadProductList(filters, callOptions),
+          {
+            ...queryTimes.products,
+            persist: true,
+            force,
+            signal,
+            onUpdate: (fresh) => {
+              if (requestId !== latestPageRequest) return;
+              const products = append ? mergeProducts(get().pageProducts, fresh.products, true) : fresh.products;
+              const pagination = fresh.pagination || get().pagination || singlePage(products.length);
+              set({
+                pageProducts: products,
+                pagination,
+                facets: resolveFacets(fresh, get().products, filters, get().categories),
+              });
+            },
+          }
+        );
+        seedProducts(data.products, false);
+        if (requestId !== latestPageRequest) return;
+        const products = append ? mergeProducts(get().pageProducts, data.products, false) : data.products;
+        const pagination = data.pagination || singlePage(data.products.length);
         set({ 
-          loading: false, 
-          error: error.message || 'Failed to fetch products' 
+          pageProducts: products,
+          pagination,
+          facets: resolveFacets(data, get().products, filters, get().categories),
+          lastQuery: filters,
+          pageLoading: false,
+          loadingMore: false
+        });
+      } catch (error) {
+        if (requestId !== latestPageRequest) return;
+        const apiError = ApiError.from(error, 'Failed to fetch products');
+        set({ 
+          pageLoading: false, 
+          loadingMore: false,
+          error: apiError.isAborted ? null : apiError.message 
         });
       }
     },
+
+    fetchNextPage: async (options = {}) => {
+      const { pagination, lastQuery, pageLoading, loadingMore } = get();
+      if (!pagination?.hasNextPage || pageLoading || loadingMore) return;
+
+      await get().fetchProductPage(
+        { ...lastQuery, page: pagination.currentPage + 1 },
+        { ...options, append: true }
+      );
+    },
     
-    fetchCategories: async () => {
+    fetchSearchCatalog: async (options = {}) => {
+      const { force, signal, ...callOptions } = options;
+      set({ searchCatalogLoading: get().searchCatalog.length === 0 });
       try {
-        const response = await categoryService.getCategories();
-        const categories = response.categories || response.data || [];
+        const searchCatalog = await queryCache.fetch<Product[]>(
+          queryKeys.searchCatalog(),
+          async (cacheSignal) => {
+            const catalog: Product[] = [];
+            for (let page = 1; page <= SEARCH_CATALOG_MAX_PAGES; page++) {
+              const response = await productService.getProducts(
+                { page, limit: SEARCH_CATALOG_PAGE_SIZE },
+                { ...callOptions, signal: cacheSignal }
+              );
+              catalog.push(...response.data.products);
+              if (!response.data.pagination?.hasNextPage) break;
+            }
+            seedProducts(catalog, true);
+            return catalog;
+          },
+          {
+            ...queryTimes.products,
+            persist: true,
+            force,
+            signal,
+            onUpdate: (fresh) => set({ searchCatalog: fresh }),
+          }
+        );
+        set({ searchCatalog, searchCatalogLoading: false });
+      } catch (error) {
+        set({ searchCatalogLoading: false });
+        if (!ApiError.from(error).isAborted) {
+          console.error('Failed to fetch search catalog:', error);
+        }
+      }
+    },
+    
+    fetchCategories: async (options = {}) => {
+      const { force, signal, ...callOptions } = options;
+      try {
+        const categories = await queryCache.fetch<Category[]>(
+          queryKeys.categories(),
+          async (cacheSignal) => {
+            const response = await categoryService.getCategories({ ...callOptions, signal: cacheSignal });
+            // Don't cache the empty fallback from a failed request
+            if (!response.success) throw new Error('Failed to fetch categories');
+            seedCategories(response.categories, true);
+            return response.categories;
+          },
+          {
+            ...queryTimes.categories,
+            persist: true,
+            force,
+            signal,
+            onUpdate: (fresh) => set({ categories: fresh }),
+          }
+        );
+        seedCategories(categories, false);
         set({ categories });
-      } catch (error: any) {
+      } catch (error) {
+        if (ApiError.from(error).isAborted) return;
         console.error('Failed to fetch categories:', error);
-        set({ categories: [] });
+        if (get().categories.length === 0) set({ categories: [] });
       }
     },
     
-    fetchProductById: async (id: string) => {
+    fetchProductById: async (id: string, options = {}) => {
+      const { force, signal, ...callOptions } = options;
       try {
-        const response = await productService.getProductById(id);
-        if (response.success && response.data) {
-          return response.data.product;
+        return await queryCache.fetch<Product>(
+          queryKeys.product(id),
+          async (cacheSignal) => {
+            const response = await productService.getProductById(id, { ...callOptions, signal: cacheSignal });
+            return response.data.product;
+          },
+          {
+            ...queryTimes.product,
+            force,
+            signal,
+            onUpdate: (fresh) => set({
+              products: get().products.map(product => (product.id === fresh.id ? fresh : product)),
+            }),
+          }
+        );
+      } catch (error) {
+        if (!ApiError.from(error).isAborted) {
+          console.error('Failed to fetch product:', error);
         }
         return null;
+      }
+    },
+
+    fetchCategoryBySlug: async (slug: string, options = {}) => {
+      const { force, signal, ...callOptions } = options;
+      try {
+        return await queryCache.fetch<Category>(
+          queryKeys.categoryBySlug(slug),
+          async (cacheSignal) => {
+            const response = await categoryService.getCategoryBySlug(slug, { ...callOptions, signal: cacheSignal });
+            return response.data;
+          },
+          { ...queryTimes.categories, force, signal }
+        );
       } catch (error) {
-        console.error('Failed to fetch product:', error);
+        if (!ApiError.from(error).isAborted) {
+          console.error('Failed to fetch category:', error);
+        }
         return null;
       }
     },
@@ -350,70 +1386,47 @@ export const useProductStore = create<ProductState>()(
     setSortBy: (sortBy) => set({ sortBy }),
     
     setSearchQuery: (searchQuery) => set({ searchQuery }),
-    
-    getFilteredProducts: () => {
-      const { products, filters, sortBy, searchQuery } = get();
-      let filtered = [...products];
-
-      // Search filter
-      if (searchQuery) {
-        filtered = filtered.filter(product =>
-          product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          product.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          product.brand.toLowerCase().includes(searchQuery.toLowerCase())
-        );
-      }
 
-      // Category filter
-      if (filters.category) {
-        filtered = filtered.filter(product => product.category === filters.category);
-      }
-
-      // Price range filter
-      filtered = filtered.filter(product =>
-        product.price >= filters.priceRange[0] && product.price <= filters.priceRange[1]
-      );
-
-      // Condition filter
-      if (filters.condition.length > 0) {
-        filtered = filtered.filter(product => filters.condition.includes(product.condition));
-      }
-
-      // Brand filter
-      if (filters.brand.length > 0) {
-        filtered = filtered.filter(product => filters.brand.includes(product.brand));
-      }
-
-      // In stock filter
-      if (filters.inStock) {
-        filtered = filtered.filter(product => product.inStock);
-      }
-
-      // Sorting
-      switch (sortBy) {
-        case 'name':
-          filtered.sort((a, b) => a.name.localeCompare(b.name));
-          break;
-        case 'price-low':
-          filtered.sort((a, b) => a.price - b.price);
-          break;
-        case 'price-high':
-          filtered.sort((a, b) => b.price - a.price);
-          break;
-        case 'rating':
-          filtered.sort((a, b) => b.rating - a.rating);
-          break;
-        case 'newest':
-          filtered.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-          break;
-      }
-
-      return filtered;
+    hydrateFromSearchParams: (params) => {
+      const view = parseProductSearchParams(params);
+      set({ filters: view.filters, sortBy: view.sortBy, searchQuery: view.searchQuery });
+      return view;
+    },
+    
+    getProductQuery: (page = 1) => {
+      const { filters, sortBy, searchQuery, pageSize } = get();
+      return {
+        category: filters.category || undefined,
+        minPrice: filters.priceRange[0] > 0 ? filters.priceRange[0] : undefined,
+        maxPrice: filters.priceRange[1] < PRICE_RANGE_MAX ? filters.priceRange[1] : undefined,
+        condition: filters.condition.length > 0 ? filters.condition : undefined,
+        brand: filters.brand.length > 0 ? filters.brand : undefined,
+        inStock: filters.inStock || undefined,
+        search: searchQuery || undefined,
+        sort: sortBy,
+        page,
+        limit: pageSize,
+      };
     },
   }))
 );
 
 // Admin Store
+
+// Product changes also move category product counts
+const invalidateProductQueries = (id?: string) => {
+  queryCache.invalidate(['products']);
+  queryCache.invalidate(['categories']);
+  if (id) queryCache.invalidate(queryKeys.product(id));
+};
+
+// Renaming or removing a category changes which products a category filter returns
+const invalidateCategoryQueries = () => {
+  queryCache.invalidate(['categories']);
+  queryCache.invalidate(['category']);
+  queryCache.invalidate(['products']);
+};
+
 export const useAdminStore = create<AdminState>()(
   devtools((set, get) => ({
     orders: [],
@@ -425,10 +1438,10 @@ export const useAdminStore = create<AdminState>()(
       totalUsers: 0,
     },
     
-    fetchOrders: async () => {
+    fetchOrders: async (options) => {
       set({ loading: true });
       try {
-        const response = await orderService.getAllOrdersAdmin();
+        const response = await orderService.getAllOrdersAdmin(options);
         if (response.success && response.data) {
           const orders = response.data.orders || [];
           const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
@@ -469,9 +1482,10 @@ export const useAdminStore = create<AdminState>()(
       try {
         const response = await productService.createProduct(productData);
         if (response.success) {
+          invalidateProductQueries();
           // Refresh products
           const productStore = useProductStore.getState();
-          await productStore.fetchProducts();
+          await Promise.all([productStore.fetchProducts(), productStore.fetchCategories()]);
         }
       } catch (error) {
         console.error('Failed to add product:', error);
@@ -482,6 +1496,7 @@ export const useAdminStore = create<AdminState>()(
       try {
         const response = await productService.updateProduct(id, productData);
         if (response.success) {
+          invalidateProductQueries(id);
           // Refresh products
           const productStore = useProductStore.getState();
           await productStore.fetchProducts();
@@ -495,9 +1510,10 @@ export const useAdminStore = create<AdminState>()(
       try {
         const response = await productService.deleteProduct(id);
         if (response.success) {
+          invalidateProductQueries(id);
           // Refresh products
           const productStore = useProductStore.getState();
-          await productStore.fetchProducts();
+          await Promise.all([productStore.fetchProducts(), productStore.fetchCategories()]);
         }
       } catch (error) {
         console.error('Failed to delete product:', error);
@@ -508,6 +1524,7 @@ export const useAdminStore = create<AdminState>()(
       try {
         const response = await categoryService.createCategory(categoryData);
         if (response.success) {
+          invalidateCategoryQueries();
           // Refresh categories
           const productStore = useProductStore.getState();
           await productStore.fetchCategories();
@@ -521,6 +1538,7 @@ export const useAdminStore = create<AdminState>()(
       try {
         const response = await categoryService.updateCategory(id, categoryData);
         if (response.success) {
+          invalidateCategoryQueries();
           // Refresh categories
           const productStore = useProductStore.getState();
           await productStore.fetchCategories();
@@ -534,6 +1552,7 @@ export const useAdminStore = create<AdminState>()(
       try {
         const response = await categoryService.deleteCategory(id);
         if (response.success) {
+          invalidateCategoryQueries();
           // Refresh categories
           const productStore = useProductStore.getState();
           await productStore.fetchCategories();